@@ -0,0 +1,802 @@
+import type { Position } from "./engine";
+
+// 0x88 board: square = y * 16 + x, so any square with a bit of 0x88 set is off
+// the board. y = 0 is the 8th rank, same as Chesspirito positions.
+
+export const EMPTY = 0;
+export const PAWN = 1;
+export const KNIGHT = 2;
+export const BISHOP = 3;
+export const ROOK = 4;
+export const QUEEN = 5;
+export const KING = 6;
+
+export const WHITE = 0;
+export const BLACK = 1;
+
+export const QUIET = 0;
+export const CAPTURE = 1;
+export const DOUBLE_PUSH = 2;
+export const EN_PASSANT = 3;
+export const CASTLE_QUEENSIDE = 4;
+export const CASTLE_KINGSIDE = 5;
+
+const PIECE_CHARS = ".PNBRQK..pnbrqk.";
+
+const KNIGHT_OFFSETS = [-33, -31, -18, -14, 14, 18, 31, 33];
+const KING_OFFSETS = [-17, -16, -15, -1, 1, 15, 16, 17];
+const BISHOP_DIRECTIONS = [-17, -15, 15, 17];
+const ROOK_DIRECTIONS = [-16, -1, 1, 16];
+
+const WHITE_PAWN_ATTACK = 1 << PAWN;
+const BLACK_PAWN_ATTACK = 1 << 7;
+
+// Indexed by (to - from + 119): which pieces could attack "to" from "from" on
+// an empty board, and which ray a slider would follow to get there.
+const ATTACKS = new Uint8Array(240);
+const RAYS = new Int8Array(240);
+
+for (const offset of KNIGHT_OFFSETS) {
+  ATTACKS[offset + 119] |= 1 << KNIGHT;
+}
+
+for (const offset of KING_OFFSETS) {
+  ATTACKS[offset + 119] |= 1 << KING;
+}
+
+ATTACKS[-17 + 119] |= WHITE_PAWN_ATTACK;
+ATTACKS[-15 + 119] |= WHITE_PAWN_ATTACK;
+ATTACKS[15 + 119] |= BLACK_PAWN_ATTACK;
+ATTACKS[17 + 119] |= BLACK_PAWN_ATTACK;
+
+for (const [directions, type] of [
+  [BISHOP_DIRECTIONS, BISHOP],
+  [ROOK_DIRECTIONS, ROOK],
+] as const) {
+  for (const direction of directions) {
+    for (let distance = 1; distance < 8; distance++) {
+      const index = direction * distance + 119;
+
+      ATTACKS[index] |= (1 << type) | (1 << QUEEN);
+      RAYS[index] = direction;
+    }
+  }
+}
+
+export function toSquare(pos: Position): number {
+  return pos.y * 16 + pos.x;
+}
+
+export function fromSquare(square: number): Position {
+  return { y: square >> 4, x: square & 7 };
+}
+
+export function encodeMove(
+  from: number,
+  to: number,
+  flag: number,
+  promotion = EMPTY,
+): number {
+  return from | (to << 7) | (flag << 14) | (promotion << 17);
+}
+
+export function getMoveFrom(move: number): number {
+  return move & 0x7f;
+}
+
+export function getMoveTo(move: number): number {
+  return (move >> 7) & 0x7f;
+}
+
+export function getMoveFlag(move: number): number {
+  return (move >> 14) & 0x7;
+}
+
+export function getMovePromotion(move: number): number {
+  return move >> 17;
+}
+
+function getSquareName(square: number): string {
+  return "abcdefgh"[square & 7] + (8 - (square >> 4));
+}
+
+export function getMoveUci(move: number): string {
+  const promotion = getMovePromotion(move);
+
+  return (
+    getSquareName(getMoveFrom(move)) +
+    getSquareName(getMoveTo(move)) +
+    (promotion !== EMPTY ? PIECE_CHARS[promotion].toLowerCase() : "")
+  );
+}
+
+export function getPieceChar(piece: number): string {
+  return PIECE_CHARS[piece];
+}
+
+export function getPieceCode(char: string): number {
+  return PIECE_CHARS.indexOf(char);
+}
+
+const CASTLING_KEY = 16 * 128;
+const EN_PASSANT_KEY = CASTLING_KEY + 4;
+const SIDE_KEY = EN_PASSANT_KEY + 8;
+
+// Zobrist keys split in 32-bit halves: one per piece code and square, one per
+// castling right, one per en passant file and one for black to move.
+const ZOBRIST_LOW = new Int32Array(SIDE_KEY + 1);
+const ZOBRIST_HIGH = new Int32Array(SIDE_KEY + 1);
+
+let seed = 0x9e3779b9;
+
+function nextRandom(): number {
+  seed ^= seed << 13;
+  seed ^= seed >>> 17;
+  seed ^= seed << 5;
+
+  return seed | 0;
+}
+
+for (let i = 0; i <= SIDE_KEY; i++) {
+  ZOBRIST_LOW[i] = nextRandom();
+  ZOBRIST_HIGH[i] = nextRandom();
+}
+
+interface BoardUndo {
+  captured: number;
+  castlingRooks: number[];
+  epSquare: number;
+  halfmoveClock: number;
+  hashLow: number;
+  hashHigh: number;
+}
+
+export class Board0x88 {
+  squares: Uint8Array;
+  pieceLists: [number[], number[]];
+  private pieceIndices: Int8Array;
+  kingSquares: [number, number];
+  turn: number;
+  // Rook squares that can still castle: [white queenside, white kingside,
+  // black queenside, black kingside], -1 when the right is gone.
+  castlingRooks: number[];
+  chess960: boolean;
+  // Variant rules that forbid some otherwise legal moves, asked with the move
+  // already made on the board.
+  moveFilter: ((board: Board0x88, move: number) => boolean) | null;
+  epSquare: number;
+  halfmoveClock: number;
+  fullmoveNumber: number;
+  hashLow: number;
+  hashHigh: number;
+  private undoStack: BoardUndo[];
+
+  constructor() {
+    this.squares = new Uint8Array(128);
+    this.pieceLists = [[], []];
+    this.pieceIndices = new Int8Array(128);
+    this.kingSquares = [-1, -1];
+    this.turn = WHITE;
+    this.castlingRooks = [-1, -1, -1, -1];
+    this.chess960 = false;
+    this.moveFilter = null;
+    this.epSquare = -1;
+    this.halfmoveClock = 0;
+    this.fullmoveNumber = 1;
+    this.hashLow = 0;
+    this.hashHigh = 0;
+    this.undoStack = [];
+  }
+
+  clone(): Board0x88 {
+    const board = new Board0x88();
+
+    board.squares = this.squares.slice();
+    board.pieceLists = [this.pieceLists[0].slice(), this.pieceLists[1].slice()];
+    board.pieceIndices = this.pieceIndices.slice();
+    board.kingSquares = [this.kingSquares[0], this.kingSquares[1]];
+    board.turn = this.turn;
+    board.castlingRooks = this.castlingRooks.slice();
+    board.chess960 = this.chess960;
+    board.moveFilter = this.moveFilter;
+    board.epSquare = this.epSquare;
+    board.halfmoveClock = this.halfmoveClock;
+    board.fullmoveNumber = this.fullmoveNumber;
+    board.hashLow = this.hashLow;
+    board.hashHigh = this.hashHigh;
+
+    return board;
+  }
+
+  // Chess960 castling is written king-takes-rook, since the king's own move
+  // can look like an ordinary king step or not move at all. Rook squares
+  // never change during a game, so later castles in a line resolve the same.
+  toUci(move: number): string {
+    const flag = getMoveFlag(move);
+
+    if (
+      !this.chess960 ||
+      (flag !== CASTLE_QUEENSIDE && flag !== CASTLE_KINGSIDE)
+    ) {
+      return getMoveUci(move);
+    }
+
+    const from = getMoveFrom(move);
+    const us = from >> 4 === 7 ? WHITE : BLACK;
+    const rookSquare =
+      this.castlingRooks[us * 2 + (flag === CASTLE_QUEENSIDE ? 0 : 1)];
+
+    return getSquareName(from) + getSquareName(rookSquare);
+  }
+
+  hash(): bigint {
+    return (BigInt(this.hashHigh >>> 0) << 32n) | BigInt(this.hashLow >>> 0);
+  }
+
+  private toggleKey(index: number) {
+    this.hashLow ^= ZOBRIST_LOW[index];
+    this.hashHigh ^= ZOBRIST_HIGH[index];
+  }
+
+  // En passant only counts when the side to move can actually capture, so
+  // positions that only differ in an unusable en passant square hash equally.
+  private toggleStateKeys() {
+    for (let i = 0; i < 4; i++) {
+      if (this.castlingRooks[i] !== -1) {
+        this.toggleKey(CASTLING_KEY + i);
+      }
+    }
+
+    if (this.epSquare !== -1) {
+      const pawn = (this.turn << 3) | PAWN;
+      const behind = this.epSquare + (this.turn === WHITE ? 16 : -16);
+
+      for (const from of [behind - 1, behind + 1]) {
+        if (
+          (from & 0x88) === 0 &&
+          this.squares[from] === pawn &&
+          this.isLegalEnPassant(from, this.epSquare)
+        ) {
+          this.toggleKey(EN_PASSANT_KEY + (this.epSquare & 7));
+          break;
+        }
+      }
+    }
+
+    if (this.turn === BLACK) {
+      this.toggleKey(SIDE_KEY);
+    }
+  }
+
+  resetHash() {
+    this.hashLow = 0;
+    this.hashHigh = 0;
+
+    for (const list of this.pieceLists) {
+      for (const square of list) {
+        this.toggleKey(this.squares[square] * 128 + square);
+      }
+    }
+
+    this.toggleStateKeys();
+  }
+
+  addPiece(square: number, piece: number) {
+    const list = this.pieceLists[piece >> 3];
+
+    this.squares[square] = piece;
+    this.pieceIndices[square] = list.length;
+    list.push(square);
+    this.toggleKey(piece * 128 + square);
+
+    if ((piece & 7) === KING) {
+      this.kingSquares[piece >> 3] = square;
+    }
+  }
+
+  private removePiece(square: number) {
+    const list = this.pieceLists[this.squares[square] >> 3];
+    const index = this.pieceIndices[square];
+    const last = list.pop()!;
+
+    if (last !== square) {
+      list[index] = last;
+      this.pieceIndices[last] = index;
+    }
+
+    this.toggleKey(this.squares[square] * 128 + square);
+    this.squares[square] = EMPTY;
+  }
+
+  private movePiece(from: number, to: number) {
+    const piece = this.squares[from];
+    const index = this.pieceIndices[from];
+
+    this.squares[to] = piece;
+    this.squares[from] = EMPTY;
+    this.pieceLists[piece >> 3][index] = to;
+    this.pieceIndices[to] = index;
+    this.toggleKey(piece * 128 + from);
+    this.toggleKey(piece * 128 + to);
+
+    if ((piece & 7) === KING) {
+      this.kingSquares[piece >> 3] = to;
+    }
+  }
+
+  isSquareAttacked(square: number, color: number): boolean {
+    const pawnAttack = color === WHITE ? WHITE_PAWN_ATTACK : BLACK_PAWN_ATTACK;
+
+    for (const from of this.pieceLists[color]) {
+      const piece = this.squares[from];
+
+      if (piece === EMPTY) continue;
+
+      const type = piece & 7;
+      const index = square - from + 119;
+
+      if ((ATTACKS[index] & (type === PAWN ? pawnAttack : 1 << type)) === 0) {
+        continue;
+      }
+
+      if (type === BISHOP || type === ROOK || type === QUEEN) {
+        const step = RAYS[index];
+        let s = from + step;
+
+        while (s !== square && this.squares[s] === EMPTY) {
+          s += step;
+        }
+
+        if (s !== square) continue;
+      }
+
+      return true;
+    }
+
+    return false;
+  }
+
+  inCheck(color = this.turn): boolean {
+    return this.isSquareAttacked(this.kingSquares[color], color ^ 1);
+  }
+
+  generateLegalMoves(): number[] {
+    const moves: number[] = [];
+    const squares = this.squares;
+    const us = this.turn;
+    const them = us ^ 1;
+    const kingSquare = this.kingSquares[us];
+    const forward = us === WHITE ? -16 : 16;
+
+    const pinnedSquares: number[] = [];
+    const pinDirections: number[] = [];
+    const blockSquares: number[] = [];
+    let checkers = 0;
+
+    for (const direction of KING_OFFSETS) {
+      const isDiagonal = BISHOP_DIRECTIONS.includes(direction);
+      let pinned = -1;
+
+      for (let s = kingSquare + direction; (s & 0x88) === 0; s += direction) {
+        const piece = squares[s];
+
+        if (piece === EMPTY) continue;
+
+        if (piece >> 3 === us) {
+          if (pinned !== -1) break;
+          pinned = s;
+          continue;
+        }
+
+        const type = piece & 7;
+        const slides =
+          type === QUEEN || (isDiagonal ? type === BISHOP : type === ROOK);
+
+        if (slides) {
+          if (pinned === -1) {
+            checkers++;
+
+            for (let b = kingSquare + direction; ; b += direction) {
+              blockSquares.push(b);
+              if (b === s) break;
+            }
+          } else {
+            pinnedSquares.push(pinned);
+            pinDirections.push(direction);
+          }
+        }
+
+        break;
+      }
+    }
+
+    for (const offset of KNIGHT_OFFSETS) {
+      const s = kingSquare + offset;
+
+      if ((s & 0x88) === 0 && squares[s] === ((them << 3) | KNIGHT)) {
+        checkers++;
+        blockSquares.push(s);
+      }
+    }
+
+    for (const s of [kingSquare + forward - 1, kingSquare + forward + 1]) {
+      if ((s & 0x88) === 0 && squares[s] === ((them << 3) | PAWN)) {
+        checkers++;
+        blockSquares.push(s);
+      }
+    }
+
+    squares[kingSquare] = EMPTY;
+
+    for (const offset of KING_OFFSETS) {
+      const to = kingSquare + offset;
+
+      if ((to & 0x88) !== 0) continue;
+
+      const target = squares[to];
+
+      if (target !== EMPTY && target >> 3 === us) continue;
+
+      if (!this.isSquareAttacked(to, them)) {
+        moves.push(
+          encodeMove(kingSquare, to, target === EMPTY ? QUIET : CAPTURE),
+        );
+      }
+    }
+
+    squares[kingSquare] = (us << 3) | KING;
+
+    if (checkers > 1) {
+      return moves;
+    }
+
+    const inCheck = checkers === 1;
+    const isAllowed = (to: number) => !inCheck || blockSquares.includes(to);
+
+    for (const from of this.pieceLists[us]) {
+      if (from === kingSquare) continue;
+
+      const type = squares[from] & 7;
+      const pinIndex = pinnedSquares.indexOf(from);
+      const pinDirection = pinIndex === -1 ? 0 : pinDirections[pinIndex];
+
+      const canMoveAlong = (direction: number) =>
+        pinDirection === 0 ||
+        direction === pinDirection ||
+        direction === -pinDirection;
+
+      if (type === PAWN) {
+        const one = from + forward;
+
+        if (squares[one] === EMPTY && canMoveAlong(forward)) {
+          if (isAllowed(one)) {
+            this.addPawnMoves(moves, from, one, QUIET);
+          }
+
+          const two = one + forward;
+          const startingRank = us === WHITE ? 6 : 1;
+
+          if (
+            from >> 4 === startingRank &&
+            squares[two] === EMPTY &&
+            isAllowed(two)
+          ) {
+            moves.push(encodeMove(from, two, DOUBLE_PUSH));
+          }
+        }
+
+        for (const direction of [forward - 1, forward + 1]) {
+          const to = from + direction;
+
+          if ((to & 0x88) !== 0 || !canMoveAlong(direction)) continue;
+
+          const target = squares[to];
+
+          if (target !== EMPTY && target >> 3 === them) {
+            if (isAllowed(to)) {
+              this.addPawnMoves(moves, from, to, CAPTURE);
+            }
+          } else if (to === this.epSquare && this.isLegalEnPassant(from, to)) {
+            moves.push(encodeMove(from, to, EN_PASSANT));
+          }
+        }
+      } else if (type === KNIGHT) {
+        if (pinDirection !== 0) continue;
+
+        for (const offset of KNIGHT_OFFSETS) {
+          const to = from + offset;
+
+          if ((to & 0x88) !== 0) continue;
+
+          const target = squares[to];
+
+          if ((target === EMPTY || target >> 3 === them) && isAllowed(to)) {
+            moves.push(
+              encodeMove(from, to, target === EMPTY ? QUIET : CAPTURE),
+            );
+          }
+        }
+      } else {
+        const directions =
+          type === BISHOP
+            ? BISHOP_DIRECTIONS
+            : type === ROOK
+              ? ROOK_DIRECTIONS
+              : KING_OFFSETS;
+
+        for (const direction of directions) {
+          if (!canMoveAlong(direction)) continue;
+
+          for (let to = from + direction; (to & 0x88) === 0; to += direction) {
+            const target = squares[to];
+
+            if (target !== EMPTY && target >> 3 === us) break;
+
+            if (isAllowed(to)) {
+              moves.push(
+                encodeMove(from, to, target === EMPTY ? QUIET : CAPTURE),
+              );
+            }
+
+            if (target !== EMPTY) break;
+          }
+        }
+      }
+    }
+
+    if (!inCheck) {
+      this.generateCastlingMoves(moves);
+    }
+
+    if (this.moveFilter !== null) {
+      return moves.filter((move) => this.isMoveAllowed(move));
+    }
+
+    return moves;
+  }
+
+  isMoveAllowed(move: number): boolean {
+    if (this.moveFilter === null) {
+      return true;
+    }
+
+    this.makeMove(move);
+    const allowed = this.moveFilter(this, move);
+    this.unmakeMove(move);
+
+    return allowed;
+  }
+
+  private addPawnMoves(
+    moves: number[],
+    from: number,
+    to: number,
+    flag: number,
+  ) {
+    const lastRank = this.turn === WHITE ? 0 : 7;
+
+    if (to >> 4 === lastRank) {
+      for (const promotion of [QUEEN, ROOK, BISHOP, KNIGHT]) {
+        moves.push(encodeMove(from, to, flag, promotion));
+      }
+    } else {
+      moves.push(encodeMove(from, to, flag));
+    }
+  }
+
+  private isLegalEnPassant(from: number, to: number): boolean {
+    const squares = this.squares;
+    const capturedSquare = to + (this.turn === WHITE ? 16 : -16);
+    const pawn = squares[from];
+    const captured = squares[capturedSquare];
+
+    squares[to] = pawn;
+    squares[from] = EMPTY;
+    squares[capturedSquare] = EMPTY;
+
+    const legal = !this.inCheck();
+
+    squares[capturedSquare] = captured;
+    squares[from] = pawn;
+    squares[to] = EMPTY;
+
+    return legal;
+  }
+
+  generateCastlingMoves(moves: number[] = []): number[] {
+    const squares = this.squares;
+    const us = this.turn;
+    const kingSquare = this.kingSquares[us];
+    const rank = us === WHITE ? 0x70 : 0x00;
+
+    if (this.inCheck()) {
+      return moves;
+    }
+
+    for (const flag of [CASTLE_QUEENSIDE, CASTLE_KINGSIDE]) {
+      const isQueenside = flag === CASTLE_QUEENSIDE;
+      const rookSquare = this.castlingRooks[us * 2 + (isQueenside ? 0 : 1)];
+
+      if (rookSquare === -1 || squares[rookSquare] !== ((us << 3) | ROOK)) {
+        continue;
+      }
+
+      const kingTo = rank + (isQueenside ? 2 : 6);
+      const rookTo = rank + (isQueenside ? 3 : 5);
+
+      const min = Math.min(kingSquare, kingTo, rookSquare, rookTo);
+      const max = Math.max(kingSquare, kingTo, rookSquare, rookTo);
+
+      squares[kingSquare] = EMPTY;
+      squares[rookSquare] = EMPTY;
+
+      let valid = true;
+
+      for (let s = min; s <= max && valid; s++) {
+        valid = squares[s] === EMPTY;
+      }
+
+      const step = kingTo > kingSquare ? 1 : -1;
+
+      for (let s = kingSquare; valid && s !== kingTo;) {
+        s += step;
+        valid = !this.isSquareAttacked(s, us ^ 1);
+      }
+
+      squares[kingSquare] = (us << 3) | KING;
+      squares[rookSquare] = (us << 3) | ROOK;
+
+      if (valid) {
+        moves.push(encodeMove(kingSquare, kingTo, flag));
+      }
+    }
+
+    return moves;
+  }
+
+  makeMove(move: number) {
+    const from = getMoveFrom(move);
+    const to = getMoveTo(move);
+    const flag = getMoveFlag(move);
+    const promotion = getMovePromotion(move);
+    const piece = this.squares[from];
+    const us = piece >> 3;
+
+    const undo: BoardUndo = {
+      captured: EMPTY,
+      castlingRooks: this.castlingRooks.slice(),
+      epSquare: this.epSquare,
+      halfmoveClock: this.halfmoveClock,
+      hashLow: this.hashLow,
+      hashHigh: this.hashHigh,
+    };
+
+    this.undoStack.push(undo);
+    this.toggleStateKeys();
+    this.epSquare = -1;
+
+    if (flag === CASTLE_QUEENSIDE || flag === CASTLE_KINGSIDE) {
+      const isQueenside = flag === CASTLE_QUEENSIDE;
+      const rookSquare = this.castlingRooks[us * 2 + (isQueenside ? 0 : 1)];
+      const rookTo = (to & 0x70) + (isQueenside ? 3 : 5);
+
+      this.removePiece(from);
+      this.removePiece(rookSquare);
+      this.addPiece(to, (us << 3) | KING);
+      this.addPiece(rookTo, (us << 3) | ROOK);
+    } else {
+      if (flag === EN_PASSANT) {
+        const capturedSquare = to + (us === WHITE ? 16 : -16);
+
+        undo.captured = this.squares[capturedSquare];
+        this.removePiece(capturedSquare);
+      } else if (this.squares[to] !== EMPTY) {
+        undo.captured = this.squares[to];
+        this.removePiece(to);
+      }
+
+      this.movePiece(from, to);
+
+      if (promotion !== EMPTY) {
+        this.removePiece(to);
+        this.addPiece(to, (us << 3) | promotion);
+      }
+
+      if (flag === DOUBLE_PUSH) {
+        this.epSquare = (from + to) >> 1;
+      }
+    }
+
+    if ((piece & 7) === KING) {
+      this.castlingRooks[us * 2] = -1;
+      this.castlingRooks[us * 2 + 1] = -1;
+    }
+
+    for (let i = 0; i < 4; i++) {
+      if (this.castlingRooks[i] === from || this.castlingRooks[i] === to) {
+        this.castlingRooks[i] = -1;
+      }
+    }
+
+    if ((piece & 7) === PAWN || undo.captured !== EMPTY) {
+      this.halfmoveClock = 0;
+    } else {
+      this.halfmoveClock++;
+    }
+
+    if (us === BLACK) {
+      this.fullmoveNumber++;
+    }
+
+    this.turn = us ^ 1;
+    this.toggleStateKeys();
+  }
+
+  unmakeMove(move: number) {
+    const undo = this.undoStack.pop();
+
+    if (!undo) {
+      throw new Error("Invalid undo = clean history");
+    }
+
+    const from = getMoveFrom(move);
+    const to = getMoveTo(move);
+    const flag = getMoveFlag(move);
+    const us = this.turn ^ 1;
+
+    this.turn = us;
+    this.castlingRooks = undo.castlingRooks;
+    this.epSquare = undo.epSquare;
+    this.halfmoveClock = undo.halfmoveClock;
+
+    if (us === BLACK) {
+      this.fullmoveNumber--;
+    }
+
+    if (flag === CASTLE_QUEENSIDE || flag === CASTLE_KINGSIDE) {
+      const isQueenside = flag === CASTLE_QUEENSIDE;
+      const rookSquare = this.castlingRooks[us * 2 + (isQueenside ? 0 : 1)];
+      const rookTo = (to & 0x70) + (isQueenside ? 3 : 5);
+
+      this.removePiece(to);
+      this.removePiece(rookTo);
+      this.addPiece(from, (us << 3) | KING);
+      this.addPiece(rookSquare, (us << 3) | ROOK);
+    } else {
+      if (getMovePromotion(move) !== EMPTY) {
+        this.removePiece(to);
+        this.addPiece(to, (us << 3) | PAWN);
+      }
+
+      this.movePiece(to, from);
+
+      if (undo.captured !== EMPTY) {
+        const capturedSquare =
+          flag === EN_PASSANT ? to + (us === WHITE ? 16 : -16) : to;
+
+        this.addPiece(capturedSquare, undo.captured);
+      }
+    }
+
+    this.hashLow = undo.hashLow;
+    this.hashHigh = undo.hashHigh;
+  }
+
+  perft(depth: number): number {
+    const moves = this.generateLegalMoves();
+
+    if (depth <= 1) {
+      return depth === 1 ? moves.length : 1;
+    }
+
+    let nodes = 0;
+
+    for (const move of moves) {
+      this.makeMove(move);
+      nodes += this.perft(depth - 1);
+      this.unmakeMove(move);
+    }
+
+    return nodes;
+  }
+}
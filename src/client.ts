@@ -0,0 +1,99 @@
+import { EngineRequest, EngineResponse } from "./protocol";
+import { SearchOptions, SearchResult } from "./search";
+
+interface PendingRequest {
+  resolve: (result: SearchResult | null) => void;
+  reject: (err: Error) => void;
+  onInfo?: (result: SearchResult) => void;
+}
+
+export class EngineClient {
+  private worker: Worker;
+  private nextId: number;
+  private pending: Map<number, PendingRequest>;
+
+  constructor() {
+    this.worker = new Worker(new URL("./worker.ts", import.meta.url), {
+      type: "module",
+    });
+    this.nextId = 1;
+    this.pending = new Map();
+
+    this.worker.addEventListener(
+      "message",
+      (event: MessageEvent<EngineResponse>) => this.handleResponse(event.data),
+    );
+  }
+
+  private request(
+    request: EngineRequest,
+    id: number,
+    onInfo?: (result: SearchResult) => void,
+  ): Promise<SearchResult | null> {
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject, onInfo });
+      this.worker.postMessage(request);
+    });
+  }
+
+  private handleResponse(response: EngineResponse) {
+    const pending = this.pending.get(response.id);
+
+    if (pending === undefined) return;
+
+    switch (response.type) {
+      case "info": {
+        pending.onInfo?.(response.result);
+        break;
+      }
+      case "ready": {
+        this.pending.delete(response.id);
+        pending.resolve(null);
+        break;
+      }
+      case "bestmove": {
+        this.pending.delete(response.id);
+        pending.resolve(response.result);
+        break;
+      }
+      case "error": {
+        this.pending.delete(response.id);
+        pending.reject(new Error(response.message));
+        break;
+      }
+    }
+  }
+
+  async setPosition(
+    fen?: string,
+    moves: string[] = [],
+    variant?: string,
+  ): Promise<void> {
+    const id = this.nextId++;
+
+    await this.request({ type: "position", id, fen, moves, variant }, id);
+  }
+
+  async go(
+    options: SearchOptions,
+    onInfo?: (result: SearchResult) => void,
+  ): Promise<SearchResult> {
+    const id = this.nextId++;
+
+    return (await this.request({ type: "go", id, options }, id, onInfo))!;
+  }
+
+  stop() {
+    this.worker.postMessage({ type: "stop" } satisfies EngineRequest);
+  }
+
+  terminate() {
+    this.worker.terminate();
+
+    for (const pending of this.pending.values()) {
+      pending.reject(new Error("Invalid search = engine terminated"));
+    }
+
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,218 @@
+import { Color } from "./engine";
+
+export type TimingMethod = "fischer" | "bronstein" | "delay";
+
+export interface TimeControlStage {
+  moves: number | null;
+  timeMs: number;
+  incrementMs: number;
+  method: TimingMethod;
+}
+
+export interface ClockPress {
+  remaining: number;
+  timeSpent: number;
+}
+
+export interface ChessClockJSON {
+  stages: TimeControlStage[];
+  remaining: Record<Color, number>;
+  stageIndex: Record<Color, number>;
+  stageMoves: Record<Color, number>;
+  turnColor: Color | null;
+  turnElapsed: number;
+  active: Color | null;
+}
+
+export function suddenDeath(timeMs: number): TimeControlStage[] {
+  return [{ moves: null, timeMs, incrementMs: 0, method: "fischer" }];
+}
+
+export function fischer(
+  timeMs: number,
+  incrementMs: number,
+): TimeControlStage[] {
+  return [{ moves: null, timeMs, incrementMs, method: "fischer" }];
+}
+
+export function bronstein(timeMs: number, delayMs: number): TimeControlStage[] {
+  return [{ moves: null, timeMs, incrementMs: delayMs, method: "bronstein" }];
+}
+
+export function simpleDelay(
+  timeMs: number,
+  delayMs: number,
+): TimeControlStage[] {
+  return [{ moves: null, timeMs, incrementMs: delayMs, method: "delay" }];
+}
+
+export class ChessClock {
+  stages: TimeControlStage[];
+  active: Color | null;
+  private now: () => number;
+  private remaining: Record<Color, number>;
+  private stageIndex: Record<Color, number>;
+  private stageMoves: Record<Color, number>;
+  private turnColor: Color | null;
+  private turnElapsed: number;
+  private turnStart: number;
+
+  constructor(stages: TimeControlStage[], now = () => Date.now()) {
+    if (stages.length === 0) {
+      throw new Error("Invalid time control = no stages");
+    }
+
+    for (const { moves, timeMs, incrementMs } of stages) {
+      if (
+        (moves !== null && !(Number.isInteger(moves) && moves > 0)) ||
+        !(timeMs > 0) ||
+        !(incrementMs >= 0)
+      ) {
+        throw new Error("Invalid time control = malformed stage");
+      }
+    }
+
+    this.stages = stages;
+    this.active = null;
+    this.now = now;
+    this.remaining = { w: stages[0].timeMs, b: stages[0].timeMs };
+    this.stageIndex = { w: 0, b: 0 };
+    this.stageMoves = { w: 0, b: 0 };
+    this.turnColor = null;
+    this.turnElapsed = 0;
+    this.turnStart = 0;
+  }
+
+  // The running turn is frozen into the elapsed time, so a restored clock
+  // carries on from the moment it was serialised.
+  toJSON(): ChessClockJSON {
+    return {
+      stages: this.stages.map((stage) => ({ ...stage })),
+      remaining: { ...this.remaining },
+      stageIndex: { ...this.stageIndex },
+      stageMoves: { ...this.stageMoves },
+      turnColor: this.turnColor,
+      turnElapsed:
+        this.turnColor !== null ? this.getTurnElapsed(this.turnColor) : 0,
+      active: this.active,
+    };
+  }
+
+  static fromJSON(json: ChessClockJSON, now = () => Date.now()): ChessClock {
+    const clock = new ChessClock(
+      json.stages.map((stage) => ({ ...stage })),
+      now,
+    );
+
+    clock.remaining = { ...json.remaining };
+    clock.stageIndex = { ...json.stageIndex };
+    clock.stageMoves = { ...json.stageMoves };
+    clock.turnColor = json.turnColor;
+    clock.turnElapsed = json.turnElapsed;
+
+    if (json.active !== null) {
+      clock.start(json.active);
+    }
+
+    return clock;
+  }
+
+  clone(): ChessClock {
+    return ChessClock.fromJSON(this.toJSON(), this.now);
+  }
+
+  private getTurnElapsed(color: Color): number {
+    if (this.turnColor !== color) {
+      return 0;
+    }
+
+    return (
+      this.turnElapsed +
+      (this.active === color ? this.now() - this.turnStart : 0)
+    );
+  }
+
+  getRemaining(color: Color): number {
+    const elapsed = this.getTurnElapsed(color);
+    const { method, incrementMs } = this.stages[this.stageIndex[color]];
+    const charged =
+      method === "delay" ? Math.max(elapsed - incrementMs, 0) : elapsed;
+
+    return this.remaining[color] - charged;
+  }
+
+  hasFlagged(color: Color): boolean {
+    return this.getRemaining(color) <= 0;
+  }
+
+  start(color: Color) {
+    if (this.turnColor !== color) {
+      this.turnColor = color;
+      this.turnElapsed = 0;
+    }
+
+    this.active = color;
+    this.turnStart = this.now();
+  }
+
+  pause() {
+    if (this.active === null) return;
+
+    this.turnElapsed += this.now() - this.turnStart;
+    this.active = null;
+  }
+
+  // Puts a side back to how it stood after its given number of moves, with
+  // the time it had left then (the starting time when it has not moved), and
+  // stops the running turn so the undone time is neither charged nor credited.
+  restore(color: Color, moves: number, remaining: number | null) {
+    let stageIndex = 0;
+    let stageMoves = moves;
+
+    for (
+      let stage = this.stages[0];
+      stage.moves !== null && stageMoves >= stage.moves;
+      stage = this.stages[stageIndex]
+    ) {
+      stageMoves -= stage.moves;
+      stageIndex = Math.min(stageIndex + 1, this.stages.length - 1);
+    }
+
+    this.remaining[color] = remaining ?? this.stages[0].timeMs;
+    this.stageIndex[color] = stageIndex;
+    this.stageMoves[color] = stageMoves;
+    this.active = null;
+    this.turnColor = null;
+    this.turnElapsed = 0;
+  }
+
+  press(color: Color): ClockPress {
+    const timeSpent = this.getTurnElapsed(color);
+    const stage = this.stages[this.stageIndex[color]];
+
+    let remaining = this.getRemaining(color);
+
+    if (stage.method === "fischer") {
+      remaining += stage.incrementMs;
+    } else if (stage.method === "bronstein") {
+      remaining += Math.min(timeSpent, stage.incrementMs);
+    }
+
+    this.stageMoves[color]++;
+
+    // The last stage repeats when it is also limited to a number of moves.
+    if (stage.moves !== null && this.stageMoves[color] === stage.moves) {
+      this.stageIndex[color] = Math.min(
+        this.stageIndex[color] + 1,
+        this.stages.length - 1,
+      );
+      this.stageMoves[color] = 0;
+      remaining += this.stages[this.stageIndex[color]].timeMs;
+    }
+
+    this.remaining[color] = remaining;
+    this.start(color === "w" ? "b" : "w");
+
+    return { remaining, timeSpent };
+  }
+}
@@ -1,3 +1,35 @@
+import {
+  BLACK,
+  Board0x88,
+  CAPTURE,
+  CASTLE_KINGSIDE,
+  CASTLE_QUEENSIDE,
+  DOUBLE_PUSH,
+  EMPTY,
+  EN_PASSANT,
+  PAWN,
+  QUEEN,
+  QUIET,
+  WHITE,
+  encodeMove,
+  fromSquare,
+  getMoveFlag,
+  getMoveFrom,
+  getMovePromotion,
+  getMoveTo,
+  getPieceCode,
+  toSquare,
+} from "./board0x88";
+import {
+  SearchOptions,
+  SearchResult,
+  iterativeDeepening,
+  search,
+} from "./search";
+import { TranspositionTable } from "./transposition";
+import { ChessClock, ChessClockJSON } from "./clock";
+import { STANDARD, Variant, getVariant } from "./variants";
+
 const RANK_LENGTH = 8;
 
 const FILES = ["a", "b", "c", "d", "e", "f", "g", "h"] as const;
@@ -8,8 +40,6 @@ type Rank = (typeof RANKS)[number];
 
 type SanPosition = `${File}${Rank}`;
 
-const DEFAULT_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
-
 enum Piece {
   WHITE_PAWN = "P",
   WHITE_KNIGHT = "N",
@@ -25,10 +55,7 @@ enum Piece {
   BLACK_KING = "k",
 }
 
-type Promotion = "N" | "B" | "R" | "Q";
-
-type DirectionCoordinate = -1 | 0 | 1;
-type Direction = [DirectionCoordinate, DirectionCoordinate];
+export type Promotion = "N" | "B" | "R" | "Q";
 
 export interface Position {
   x: number;
@@ -43,16 +70,39 @@ export interface Move {
   enPassant?: boolean;
 }
 
-interface HistoryMove {
+export type Color = "w" | "b";
+
+interface CastlingSides {
+  queenside: boolean;
+  kingside: boolean;
+}
+
+type CastlingAvailability = Record<Color, CastlingSides>;
+
+type CastlingRookFiles = Record<Color, Record<keyof CastlingSides, number>>;
+
+interface CastlingMove {
+  rook: ChessPiece;
+  from: Position;
+  to: Position;
+}
+
+interface MoveDescriptor {
+  piece: ChessPiece;
   from: Position;
   to: Position;
   capture: ChessPiece | null;
   promotion: ChessPiece | null;
-  castling: ChessPiece | null;
-  lan: string;
+  castling: CastlingMove | null;
 }
 
-type Color = "w" | "b";
+export interface HistoryMove extends MoveDescriptor {
+  san: string;
+  lan: string;
+  promotionType: Promotion | null;
+  clock: number | null;
+  timeSpent: number | null;
+}
 
 interface ChessPiece {
   board: Chesspirito;
@@ -60,7 +110,6 @@ interface ChessPiece {
   color: Color;
   position: Position;
   history: Position[];
-  generateMoves(): Move[];
 }
 
 type Square = ChessPiece | null;
@@ -77,37 +126,30 @@ function isPositionOutOfBounds(pos: Position) {
   return isOutOfBounds(pos.y) || isOutOfBounds(pos.x);
 }
 
-export function isSamePosition(pos1: Position, pos2: Position): boolean {
-  return pos1.x === pos2.x && pos1.y === pos2.y;
-}
-
-function generateSlidingMoves(piece: ChessPiece, directions: Direction[]) {
-  const board = piece.board;
-  const moves: Move[] = [];
+// Kings aside, a lone knight or bishops all on one square colour can never
+// force mate.
+function isInsufficientMaterial(pieces: ChessPiece[]): boolean {
+  const others = pieces.filter((piece) => !(piece instanceof King));
 
-  for (const [yDirection, xDirection] of directions) {
-    const pos = {
-      y: piece.position.y + yDirection,
-      x: piece.position.x + xDirection,
-    };
-
-    while (!isPositionOutOfBounds(pos)) {
-      const targetSquare = board.getSquare(pos);
+  if (others.length === 0) {
+    return true;
+  }
 
-      if (targetSquare === null || targetSquare.color !== piece.color) {
-        moves.push({ from: piece.position, to: { ...pos } });
-      }
+  if (others.length === 1 && others[0] instanceof Knight) {
+    return true;
+  }
 
-      if (targetSquare !== null) {
-        break;
-      }
+  const squareColors = others.map((piece) =>
+    piece instanceof Bishop ? (piece.position.x + piece.position.y) % 2 : -1,
+  );
 
-      pos.y += yDirection;
-      pos.x += xDirection;
-    }
-  }
+  return squareColors.every(
+    (squareColor) => squareColor !== -1 && squareColor === squareColors[0],
+  );
+}
 
-  return moves;
+export function isSamePosition(pos1: Position, pos2: Position): boolean {
+  return pos1.x === pos2.x && pos1.y === pos2.y;
 }
 
 class Pawn implements ChessPiece {
@@ -124,71 +166,6 @@ class Pawn implements ChessPiece {
     this.position = pos;
     this.history = [];
   }
-
-  generateMoves(): Move[] {
-    const step = this.color === "w" ? -1 : 1;
-
-    const forwardMove: Move = {
-      from: this.position,
-      to: { y: this.position.y + step, x: this.position.x },
-      onlyMove: true,
-    };
-
-    const moves: Move[] = [
-      forwardMove,
-      {
-        from: this.position,
-        to: { y: this.position.y + step, x: this.position.x - 1 },
-        onlyAttack: true,
-      },
-      {
-        from: this.position,
-        to: { y: this.position.y + step, x: this.position.x + 1 },
-        onlyAttack: true,
-      },
-    ];
-
-    if (this.history.length === 0 && this.board.isSquareEmpty(forwardMove.to)) {
-      moves.push({
-        from: this.position,
-        to: { y: this.position.y + step * 2, x: this.position.x },
-        onlyMove: true,
-      });
-    }
-
-    return moves.filter((move) => {
-      if (isPositionOutOfBounds(move.to)) {
-        return false;
-      }
-
-      const piece = this.board.getSquare(move.to);
-
-      if (piece !== null && move.onlyMove) {
-        return false;
-      }
-
-      const enPassantable = this.board.enPassantable;
-
-      if (
-        piece === null &&
-        enPassantable &&
-        isSamePosition(
-          {
-            y: enPassantable.y + (this.board.playingColor === "w" ? 1 : -1),
-            x: enPassantable.x,
-          },
-          move.to,
-        )
-      ) {
-        move.enPassant = true;
-        return true;
-      } else if (piece === null && move.onlyAttack) {
-        return false;
-      }
-
-      return piece?.color !== this.color;
-    });
-  }
 }
 
 class Knight implements ChessPiece {
@@ -205,27 +182,6 @@ class Knight implements ChessPiece {
     this.position = pos;
     this.history = [];
   }
-
-  generateMoves(): Move[] {
-    const { x, y } = this.position;
-
-    const moves: Move[] = [
-      { y: y - 1, x: x - 2 },
-      { y: y - 2, x: x - 1 },
-      { y: y - 2, x: x + 1 },
-      { y: y - 1, x: x + 2 },
-      { y: y + 1, x: x + 2 },
-      { y: y + 2, x: x + 1 },
-      { y: y + 2, x: x - 1 },
-      { y: y + 1, x: x - 2 },
-    ].map((pos) => ({ from: this.position, to: pos }));
-
-    return moves.filter(
-      (move) =>
-        !isPositionOutOfBounds(move.to) &&
-        this.board.getSquare(move.to)?.color !== this.color,
-    );
-  }
 }
 
 class Bishop implements ChessPiece {
@@ -242,17 +198,6 @@ class Bishop implements ChessPiece {
     this.position = pos;
     this.history = [];
   }
-
-  generateMoves(): Move[] {
-    const directions: Direction[] = [
-      [-1, -1],
-      [-1, 1],
-      [1, 1],
-      [1, -1],
-    ];
-
-    return generateSlidingMoves(this, directions);
-  }
 }
 
 class Rook implements ChessPiece {
@@ -269,17 +214,6 @@ class Rook implements ChessPiece {
     this.position = pos;
     this.history = [];
   }
-
-  generateMoves(): Move[] {
-    const directions: Direction[] = [
-      [0, -1],
-      [-1, 0],
-      [0, 1],
-      [1, 0],
-    ];
-
-    return generateSlidingMoves(this, directions);
-  }
 }
 
 class Queen implements ChessPiece {
@@ -296,21 +230,6 @@ class Queen implements ChessPiece {
     this.position = pos;
     this.history = [];
   }
-
-  generateMoves(): Move[] {
-    const directions: Direction[] = [
-      [0, -1],
-      [-1, 0],
-      [0, 1],
-      [1, 0],
-      [-1, -1],
-      [-1, 1],
-      [1, 1],
-      [1, -1],
-    ];
-
-    return generateSlidingMoves(this, directions);
-  }
 }
 
 class King implements ChessPiece {
@@ -327,27 +246,6 @@ class King implements ChessPiece {
     this.position = pos;
     this.history = [];
   }
-
-  generateMoves(): Move[] {
-    const { x, y } = this.position;
-
-    const moves: Move[] = [
-      { y: y - 1, x: x - 1 },
-      { y: y - 1, x: x + 0 },
-      { y: y - 1, x: x + 1 },
-      { y: y + 0, x: x + 1 },
-      { y: y + 1, x: x + 1 },
-      { y: y + 1, x: x + 0 },
-      { y: y + 1, x: x - 1 },
-      { y: y + 0, x: x - 1 },
-    ].map((pos) => ({ from: this.position, to: pos }));
-
-    return moves.filter(
-      (move) =>
-        !isPositionOutOfBounds(move.to) &&
-        this.board.getSquare(move.to)?.color !== this.color,
-    );
-  }
 }
 
 class ChessPieceFactory {
@@ -436,10 +334,23 @@ interface CastlingRights {
   kingside: CastlingRight | null;
 }
 
+interface IrreversibleState {
+  capture: ChessPiece | null;
+  castlingRights: CastlingRights;
+  enPassantable: Position | null;
+  halfmoveClock: number;
+  fullmoveNumber: number;
+  check: Color | null;
+  legalMoves: Move[];
+  gameOver: GameOver | null;
+  drawOffer: Color | null;
+}
+
 interface SanGenerationOptions {
   piece: ChessPiece;
   from: SanPosition;
   to: SanPosition;
+  disambiguation: string;
   capture: boolean;
   promotion: Promotion | null;
   enPassant: boolean;
@@ -447,80 +358,615 @@ interface SanGenerationOptions {
   mate: boolean;
 }
 
-type GameOver = "0-0" | "1-0" | "0-1";
+interface ParsedFen {
+  placement: (Piece | null)[][];
+  playingColor: Color;
+  castlingAvailability: CastlingAvailability;
+  castlingRookFiles: CastlingRookFiles;
+  chess960: boolean;
+  enPassant: Position | null;
+  halfmoveClock: number;
+  fullmoveNumber: number;
+}
+
+function parseFen(fen: string): ParsedFen {
+  const fenParts = fen.trim().split(/\s+/);
+
+  if (fenParts.length !== 6) {
+    throw new Error("Invalid FEN = expected 6 fields, got " + fenParts.length);
+  }
+
+  const [
+    fenPieces,
+    fenColor,
+    fenCastling,
+    fenEnPassant,
+    fenHalfmove,
+    fenFullmove,
+  ] = fenParts;
+
+  const fenRanks = fenPieces.split("/");
+
+  if (fenRanks.length !== RANK_LENGTH) {
+    throw new Error("Invalid FEN = expected 8 ranks, got " + fenRanks.length);
+  }
+
+  const placement = fenRanks.map((fenRank, y) => {
+    const rank: (Piece | null)[] = [];
+    let prevEmptySquares = false;
+
+    for (const char of fenRank) {
+      if (Object.values(Piece).includes(char as Piece)) {
+        rank.push(char as Piece);
+        prevEmptySquares = false;
+        continue;
+      }
+
+      const charNum = Number(char);
+
+      if (isNaN(charNum) || charNum < 1 || charNum > 8) {
+        throw new Error(
+          "Invalid FEN = unexpected character " + char + " on rank " + RANKS[y],
+        );
+      }
+
+      if (prevEmptySquares) {
+        throw new Error(
+          "Invalid FEN = consecutive empty squares on rank " + RANKS[y],
+        );
+      }
+
+      for (let i = 0; i < charNum; i++) {
+        rank.push(null);
+      }
+
+      prevEmptySquares = true;
+    }
+
+    if (rank.length !== RANK_LENGTH) {
+      throw new Error(
+        "Invalid FEN = rank " + RANKS[y] + " has " + rank.length + " squares",
+      );
+    }
+
+    return rank;
+  });
+
+  if (fenColor !== "w" && fenColor !== "b") {
+    throw new Error("Invalid FEN = unknown side to move " + fenColor);
+  }
+
+  if (
+    !/^(-|[KQA-H]{0,2}[kqa-h]{0,2})$/.test(fenCastling) ||
+    fenCastling === ""
+  ) {
+    throw new Error(
+      "Invalid FEN = malformed castling availability " + fenCastling,
+    );
+  }
+
+  const castlingAvailability: CastlingAvailability = {
+    w: { queenside: false, kingside: false },
+    b: { queenside: false, kingside: false },
+  };
+  const castlingRookFiles: CastlingRookFiles = {
+    w: { queenside: 0, kingside: 7 },
+    b: { queenside: 0, kingside: 7 },
+  };
+
+  // Shredder-FEN names the castling rook's file, while X-FEN keeps KQkq for
+  // the outermost rook and only falls back to the file when it is ambiguous.
+  let chess960 = /[A-Ha-h]/.test(fenCastling);
+
+  for (const char of fenCastling.replace("-", "")) {
+    const color: Color = char === char.toUpperCase() ? "w" : "b";
+    const y = color === "w" ? 7 : 0;
+    const rank = placement[y];
+    const kingX = rank.indexOf(
+      color === "w" ? Piece.WHITE_KING : Piece.BLACK_KING,
+    );
+    const rook = color === "w" ? Piece.WHITE_ROOK : Piece.BLACK_ROOK;
+
+    if (kingX === -1) {
+      throw new Error("Invalid FEN = castling availability without king");
+    }
+
+    let rookX = FILES.indexOf(char.toLowerCase() as File);
+
+    if (char === "K" || char === "k") {
+      rookX = Math.max(rank.lastIndexOf(rook), kingX);
+    } else if (char === "Q" || char === "q") {
+      rookX = Math.min(rank.indexOf(rook), kingX);
+    }
+
+    if (rank[rookX] !== rook) {
+      throw new Error("Invalid FEN = castling availability without rook");
+    }
+
+    const side = rookX < kingX ? "queenside" : "kingside";
+
+    if (castlingAvailability[color][side]) {
+      throw new Error(
+        "Invalid FEN = malformed castling availability " + fenCastling,
+      );
+    }
+
+    castlingAvailability[color][side] = true;
+    castlingRookFiles[color][side] = rookX;
+    chess960 ||= kingX !== 4 || rookX !== (side === "queenside" ? 0 : 7);
+  }
+
+  let enPassant: Position | null = null;
+
+  if (fenEnPassant !== "-") {
+    const expectedRank = fenColor === "w" ? "6" : "3";
+
+    if (
+      !/^[a-h][1-8]$/.test(fenEnPassant) ||
+      fenEnPassant[1] !== expectedRank
+    ) {
+      throw new Error(
+        "Invalid FEN = malformed en passant square " + fenEnPassant,
+      );
+    }
+
+    enPassant = {
+      x: FILES.indexOf(fenEnPassant[0] as File),
+      y: RANKS.indexOf(Number(fenEnPassant[1]) as Rank),
+    };
+  }
+
+  if (!/^\d+$/.test(fenHalfmove)) {
+    throw new Error("Invalid FEN = malformed halfmove clock " + fenHalfmove);
+  }
+
+  if (!/^[1-9]\d*$/.test(fenFullmove)) {
+    throw new Error("Invalid FEN = malformed fullmove number " + fenFullmove);
+  }
+
+  return {
+    placement,
+    playingColor: fenColor,
+    castlingAvailability,
+    castlingRookFiles,
+    chess960,
+    enPassant,
+    halfmoveClock: Number(fenHalfmove),
+    fullmoveNumber: Number(fenFullmove),
+  };
+}
+
+interface ParsedMove {
+  from: Position;
+  to: Position;
+  promotion: Promotion | null;
+}
+
+export type GameResult = "1-0" | "0-1" | "1/2-1/2";
+
+export type Termination =
+  | "checkmate"
+  | "stalemate"
+  | "resignation"
+  | "timeout"
+  | "timeoutVsInsufficientMaterial"
+  | "agreement"
+  | "repetition"
+  | "fiftyMove"
+  | "insufficientMaterial"
+  | "kingOfTheHill"
+  | "threeCheck"
+  | "raceFinished";
+
+export interface GameOver {
+  result: GameResult;
+  termination: Termination;
+}
+
+export interface ChesspiritoOptions {
+  chess960?: boolean;
+  variant?: Variant;
+}
+
+export interface FenOptions {
+  shredder?: boolean;
+}
+
+export interface PgnOptions {
+  headers?: Record<string, string>;
+}
+
+export interface MoveJSON {
+  san: string;
+  clock: number | null;
+  timeSpent: number | null;
+}
+
+export interface ChesspiritoJSON {
+  startFen: string;
+  chess960: boolean;
+  variant: string;
+  moves: MoveJSON[];
+  gameOver: GameOver | null;
+  drawOffer: Color | null;
+  clock: ChessClockJSON | null;
+}
+
+export interface ChesspiritoEvents {
+  move: { move: HistoryMove; fen: string };
+  undo: { move: HistoryMove; fen: string };
+  check: { color: Color; king: Position };
+  gameOver: GameOver;
+  positionLoaded: { fen: string };
+}
+
+export type ChesspiritoEvent = keyof ChesspiritoEvents;
+
+export type ChesspiritoListener<E extends ChesspiritoEvent> = (
+  payload: ChesspiritoEvents[E],
+) => void;
+
+type ChesspiritoListeners = {
+  [E in ChesspiritoEvent]: Set<ChesspiritoListener<E>>;
+};
+
+const PGN_LINE_LENGTH = 80;
+
+function formatPgnClock(ms: number): string {
+  const seconds = Math.max(Math.floor(ms / 1000), 0);
+
+  return [
+    Math.floor(seconds / 3600),
+    String(Math.floor(seconds / 60) % 60).padStart(2, "0"),
+    String(seconds % 60).padStart(2, "0"),
+  ].join(":");
+}
+
+const SEVEN_TAG_ROSTER = [
+  "Event",
+  "Site",
+  "Date",
+  "Round",
+  "White",
+  "Black",
+  "Result",
+] as const;
+
+function escapePgnTagValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+const CHESS960_KNIGHTS = [
+  [0, 1],
+  [0, 2],
+  [0, 3],
+  [0, 4],
+  [1, 2],
+  [1, 3],
+  [1, 4],
+  [2, 3],
+  [2, 4],
+  [3, 4],
+];
+
+// Scharnagl numbering: the index picks the light and dark bishops, then the
+// queen and the knights among the empty squares, and the rooks and the king
+// fill the rest in R K R order, so 518 is the standard setup.
+export function getChess960Fen(index: number): string {
+  if (!Number.isInteger(index) || index < 0 || index > 959) {
+    throw new Error("Invalid Chess960 position = " + index);
+  }
+
+  const rank: (string | null)[] = Array(RANK_LENGTH).fill(null);
+  const getEmptyFiles = () =>
+    rank.flatMap((piece, x) => (piece === null ? [x] : []));
+
+  let n = index;
+
+  rank[(n % 4) * 2 + 1] = "B";
+  n = Math.floor(n / 4);
+  rank[(n % 4) * 2] = "B";
+  n = Math.floor(n / 4);
+  rank[getEmptyFiles()[n % 6]] = "Q";
+  n = Math.floor(n / 6);
+
+  const emptyFiles = getEmptyFiles();
+
+  for (const i of CHESS960_KNIGHTS[n]) {
+    rank[emptyFiles[i]] = "N";
+  }
+
+  const [queensideRook, king, kingsideRook] = getEmptyFiles();
+
+  rank[queensideRook] = "R";
+  rank[king] = "K";
+  rank[kingsideRook] = "R";
+
+  const white = rank.join("");
+  const castling =
+    FILES[kingsideRook].toUpperCase() +
+    FILES[queensideRook].toUpperCase() +
+    FILES[kingsideRook] +
+    FILES[queensideRook];
+
+  return [
+    white.toLowerCase() + "/pppppppp/8/8/8/8/PPPPPPPP/" + white,
+    "w",
+    castling,
+    "-",
+    0,
+    1,
+  ].join(" ");
+}
 
 export class Chesspirito {
   board: Square[][];
   history: HistoryMove[];
+  private undoneMoves: HistoryMove[];
+  private irreversibleStates: IrreversibleState[];
   gameOver: GameOver | null;
+  drawOffer: Color | null;
+  startFen: string;
+  chess960: boolean;
+  variant: Variant;
 
   whiteKingPosition: Position | null;
   blackKingPosition: Position | null;
   playingColor: Color;
+  private board0x88: Board0x88;
+  private transpositionTable: TranspositionTable | null;
+  private listeners: ChesspiritoListeners;
+  clock: ChessClock | null;
   check: Color | null;
   currLegalMoves: Move[];
   currCastlingRights: CastlingRights;
+  positionHistory: bigint[];
+  castlingAvailability: CastlingAvailability;
   enPassantable: Position | null;
+  halfmoveClock: number;
+  fullmoveNumber: number;
 
-  constructor(fen = DEFAULT_FEN) {
+  constructor(
+    fen?: string,
+    { chess960 = false, variant = STANDARD }: ChesspiritoOptions = {},
+  ) {
     this.board = [];
     this.history = [];
+    this.undoneMoves = [];
+    this.irreversibleStates = [];
     this.gameOver = null;
+    this.drawOffer = null;
 
     this.whiteKingPosition = null;
     this.blackKingPosition = null;
     this.check = null;
     this.enPassantable = null;
+    this.positionHistory = [];
 
     for (let y = 0; y < RANK_LENGTH; y++) {
       const emptyRank = Array(RANK_LENGTH).fill(null);
       this.board.push(emptyRank);
     }
 
-    const fenParts = fen.split(" ");
-    const fenPieces = fenParts[0].split("/");
-    const fenColor = fenParts[1];
+    const parsedFen = parseFen(fen ?? variant.startFen);
+
+    this.playingColor = parsedFen.playingColor;
+    this.chess960 = chess960 || parsedFen.chess960;
+    this.variant = variant;
+    this.halfmoveClock = parsedFen.halfmoveClock;
+    this.fullmoveNumber = parsedFen.fullmoveNumber;
+
+    this.board0x88 = new Board0x88();
+    this.transpositionTable = null;
+    this.listeners = {
+      move: new Set(),
+      undo: new Set(),
+      check: new Set(),
+      gameOver: new Set(),
+      positionLoaded: new Set(),
+    };
+    this.clock = null;
 
-    this.playingColor = fenColor as Color;
+    const kingCount: Record<Color, number> = { w: 0, b: 0 };
 
-    for (let y = 0; y < RANK_LENGTH; y++) {
-      const fenRank = fenPieces[y];
+    parsedFen.placement.forEach((rank, y) => {
+      rank.forEach((type, x) => {
+        if (type === null) return;
 
-      for (let x = 0; x < RANK_LENGTH; x++) {
-        const char = fenRank[x];
+        const position: Position = { x, y };
+        const piece = ChessPieceFactory.create(this, type, position);
 
-        if (Object.values(Piece).includes(char as Piece)) {
-          const position: Position = { x, y };
-          const piece = ChessPieceFactory.create(this, char as Piece, position);
+        if (piece instanceof Pawn && (y === 0 || y === RANK_LENGTH - 1)) {
+          throw new Error(
+            "Invalid FEN = pawn on " + this.getMoveFromPosition(position),
+          );
+        }
 
-          this.setSquare(position, piece);
-        } else {
-          const charNum = Number(char);
+        if (piece instanceof King) {
+          kingCount[piece.color]++;
+        }
 
-          if (isNaN(charNum) || charNum < 1 || charNum > 8) {
-            throw new Error("Invalid empty squares");
-          }
+        this.setSquare(position, piece);
+        this.board0x88.addPiece(toSquare(position), getPieceCode(type));
+      });
+    });
 
-          x += charNum;
-        }
+    if (kingCount.w !== 1 || kingCount.b !== 1) {
+      throw new Error("Invalid FEN = each side must have exactly one king");
+    }
+
+    if (parsedFen.enPassant !== null) {
+      const step = this.playingColor === "w" ? 1 : -1;
+      const pawnPos = {
+        y: parsedFen.enPassant.y + step,
+        x: parsedFen.enPassant.x,
+      };
+      const originPos = {
+        y: parsedFen.enPassant.y - step,
+        x: parsedFen.enPassant.x,
+      };
+      const pawn = this.getSquare(pawnPos);
+
+      if (
+        !(pawn instanceof Pawn) ||
+        pawn.color === this.playingColor ||
+        !this.isSquareEmpty(parsedFen.enPassant) ||
+        !this.isSquareEmpty(originPos)
+      ) {
+        throw new Error(
+          "Invalid FEN = impossible en passant square " +
+            this.getMoveFromPosition(parsedFen.enPassant),
+        );
       }
+
+      this.enPassantable = pawnPos;
     }
 
-    const legalMoves = this.generateLegalMoves(this.playingColor);
-    const check = this.inCheck(this.playingColor);
+    const { w, b } = parsedFen.castlingAvailability;
+    const rookFiles = parsedFen.castlingRookFiles;
+
+    this.board0x88.turn = this.playingColor === "w" ? WHITE : BLACK;
+    this.board0x88.chess960 = this.chess960;
+    this.board0x88.moveFilter = variant.isMoveAllowed ?? null;
+    this.board0x88.castlingRooks = [
+      w.queenside ? 0x70 + rookFiles.w.queenside : -1,
+      w.kingside ? 0x70 + rookFiles.w.kingside : -1,
+      b.queenside ? rookFiles.b.queenside : -1,
+      b.kingside ? rookFiles.b.kingside : -1,
+    ];
+    this.board0x88.epSquare =
+      parsedFen.enPassant !== null ? toSquare(parsedFen.enPassant) : -1;
+    this.board0x88.halfmoveClock = this.halfmoveClock;
+    this.board0x88.fullmoveNumber = this.fullmoveNumber;
+    this.board0x88.resetHash();
+    this.castlingAvailability = this.getCastlingAvailability();
+
+    if (this.inCheck(getOppositeColor(this.playingColor))) {
+      throw new Error("Invalid FEN = side not to move is in check");
+    }
 
-    this.check = check ? this.playingColor : null;
+    this.currLegalMoves = [];
+    this.currCastlingRights = { queenside: null, kingside: null };
+    this.startFen = this.fen({ shredder: this.chess960 });
 
-    if (legalMoves.length === 0) {
-      if (check) {
-        this.gameOver = this.playingColor === "w" ? "1-0" : "0-1";
-      } else {
-        this.gameOver = "0-0";
+    this.handleNextTurn(
+      this.generateLegalMoves(),
+      this.inCheck(this.playingColor),
+    );
+  }
+
+  // The FEN is parsed into a scratch game first so an invalid one leaves this
+  // game untouched; its state is then adopted and its pieces re-bound here.
+  load(fen?: string, options: ChesspiritoOptions = {}) {
+    const { listeners, clock } = this;
+    const loaded = new Chesspirito(fen, options);
+
+    Object.assign(this, loaded, { listeners, clock });
+
+    for (const rank of this.board) {
+      for (const piece of rank) {
+        if (piece !== null) {
+          piece.board = this;
+        }
       }
     }
 
-    this.currLegalMoves = legalMoves;
-    this.currCastlingRights = this.generateCastlingRights(this.playingColor);
+    this.emit("positionLoaded", { fen: this.startFen });
+  }
+
+  toJSON(): ChesspiritoJSON {
+    return {
+      startFen: this.startFen,
+      chess960: this.chess960,
+      variant: this.variant.name,
+      moves: this.history.map(({ san, clock, timeSpent }) => ({
+        san,
+        clock,
+        timeSpent,
+      })),
+      gameOver: this.gameOver !== null ? { ...this.gameOver } : null,
+      drawOffer: this.drawOffer,
+      clock: this.clock?.toJSON() ?? null,
+    };
+  }
+
+  // Moves are replayed without a clock so the recorded times are restored as
+  // they were, and results the board cannot tell (resignation, agreement,
+  // timeout) are applied afterwards.
+  static fromJSON(json: ChesspiritoJSON): Chesspirito {
+    if (typeof json?.startFen !== "string" || !Array.isArray(json.moves)) {
+      throw new Error("Invalid JSON = malformed game");
+    }
+
+    const chess = new Chesspirito(json.startFen, {
+      chess960: json.chess960 === true,
+      variant: getVariant(json.variant ?? STANDARD.name),
+    });
+
+    for (const { san, clock, timeSpent } of json.moves) {
+      chess.move(san);
+
+      const lastMove = chess.history[chess.history.length - 1];
+      lastMove.clock = clock ?? null;
+      lastMove.timeSpent = timeSpent ?? null;
+    }
+
+    if (json.gameOver && chess.gameOver === null) {
+      chess.endGame(json.gameOver.result, json.gameOver.termination);
+    }
+
+    if (chess.gameOver === null) {
+      chess.drawOffer = json.drawOffer ?? null;
+    }
+
+    chess.clock = json.clock ? ChessClock.fromJSON(json.clock) : null;
+
+    return chess;
+  }
+
+  clone(): Chesspirito {
+    const chess = Chesspirito.fromJSON(this.toJSON());
+
+    if (this.clock !== null) {
+      chess.clock = this.clock.clone();
+    }
+
+    return chess;
+  }
+
+  on<E extends ChesspiritoEvent>(event: E, listener: ChesspiritoListener<E>) {
+    this.listeners[event].add(listener);
+  }
+
+  off<E extends ChesspiritoEvent>(event: E, listener: ChesspiritoListener<E>) {
+    this.listeners[event].delete(listener);
+  }
+
+  private emit<E extends ChesspiritoEvent>(
+    event: E,
+    payload: ChesspiritoEvents[E],
+  ) {
+    for (const listener of [...this.listeners[event]]) {
+      listener(payload);
+    }
+  }
+
+  // Announces what the last move led to, once the turn has been handed over.
+  private emitMoveEvents() {
+    const move = this.history[this.history.length - 1];
+
+    this.emit("move", { move, fen: this.fen() });
+
+    if (this.check !== null) {
+      this.emit("check", {
+        color: this.check,
+        king: this.getKingPosition(this.check),
+      });
+    }
+
+    if (this.gameOver !== null) {
+      this.emit("gameOver", this.gameOver);
+    }
   }
 
   getSquare(pos: Position): Square {
@@ -594,7 +1040,7 @@ export class Chesspirito {
     const isPawn = piece instanceof Pawn;
 
     if (!isPawn) {
-      lan = piece.type + lan;
+      lan = piece.type.toUpperCase() + lan;
     }
 
     if (capture) {
@@ -620,66 +1066,111 @@ export class Chesspirito {
     return lan;
   }
 
-  private generateMoves(color: Color): Move[] {
-    let moves: Move[] = [];
-
-    for (let y = 0; y < RANK_LENGTH; y++) {
-      for (let x = 0; x < RANK_LENGTH; x++) {
-        const piece = this.getSquare({ y, x });
+  private generateSanFromMove({
+    piece,
+    from,
+    to,
+    disambiguation,
+    capture,
+    promotion,
+    check,
+    mate,
+  }: SanGenerationOptions): string {
+    let san = "";
 
-        if (piece !== null && piece.color === color) {
-          const pieceMoves = piece.generateMoves();
-          moves = moves.concat(pieceMoves);
-        }
+    if (piece instanceof Pawn) {
+      if (capture) {
+        san += from[0];
       }
+    } else {
+      san += piece.type.toUpperCase() + disambiguation;
     }
 
-    return moves;
-  }
+    if (capture) {
+      san += "x";
+    }
 
-  private generateLegalMoves(color: Color): Move[] {
-    const legalMoves: Move[] = [];
-    const pseudoLegalMoves = this.generateMoves(color);
+    san += to;
 
-    const king = color === "w" ? Piece.WHITE_KING : Piece.BLACK_KING;
+    if (promotion !== null) {
+      san += "=" + promotion;
+    }
 
-    const opponentColor = getOppositeColor(color);
+    if (mate) {
+      san += "#";
+    } else if (check) {
+      san += "+";
+    }
 
-    for (const pseudoLegalMove of pseudoLegalMoves) {
-      const square = this.getSquare(pseudoLegalMove.from);
-      const targetSquare = this.getSquare(pseudoLegalMove.to);
+    return san;
+  }
 
-      this.setSquare(pseudoLegalMove.to, square);
-      this.setSquare(pseudoLegalMove.from, null);
+  private getSanDisambiguation(
+    piece: ChessPiece,
+    from: Position,
+    to: Position,
+  ) {
+    if (piece instanceof Pawn || piece instanceof King) {
+      return "";
+    }
 
-      const opponentMoves = this.generateMoves(opponentColor);
+    const rivals = this.currLegalMoves
+      .filter(
+        (move) =>
+          isSamePosition(move.to, to) &&
+          !isSamePosition(move.from, from) &&
+          this.getSquare(move.from)?.type === piece.type,
+      )
+      .map((move) => move.from);
+
+    if (rivals.length === 0) {
+      return "";
+    }
 
-      const threatensKing = opponentMoves.some((move) => {
-        const piece = this.getSquare(move.to);
-        return piece !== null && piece.type === king;
-      });
+    const fromMove = this.getMoveFromPosition(from);
 
-      if (!threatensKing) {
-        legalMoves.push(pseudoLegalMove);
-      }
+    if (rivals.every((pos) => pos.x !== from.x)) {
+      return fromMove[0];
+    }
 
-      this.setSquare(pseudoLegalMove.to, targetSquare);
-      this.setSquare(pseudoLegalMove.from, square);
+    if (rivals.every((pos) => pos.y !== from.y)) {
+      return fromMove[1];
     }
 
-    return legalMoves;
+    return fromMove;
   }
 
-  private isSquareAttacked(attackingColor: Color, target: Position) {
-    const moves = this.generateMoves(attackingColor);
+  private generateLegalMoves(): Move[] {
+    const legalMoves: Move[] = [];
+
+    for (const move of this.board0x88.generateLegalMoves()) {
+      const flag = getMoveFlag(move);
+      const promotion = getMovePromotion(move);
 
-    return moves.some((move) => {
-      if (!move.onlyMove) {
-        return isSamePosition(move.to, target);
+      if (
+        flag === CASTLE_QUEENSIDE ||
+        flag === CASTLE_KINGSIDE ||
+        (promotion !== EMPTY && promotion !== QUEEN)
+      ) {
+        continue;
+      }
+
+      const from = fromSquare(getMoveFrom(move));
+      const to = fromSquare(getMoveTo(move));
+      const isPawn = (this.board0x88.squares[getMoveFrom(move)] & 7) === PAWN;
+
+      if (!isPawn) {
+        legalMoves.push({ from, to });
+      } else if (flag === EN_PASSANT) {
+        legalMoves.push({ from, to, onlyAttack: true, enPassant: true });
+      } else if (flag === CAPTURE) {
+        legalMoves.push({ from, to, onlyAttack: true });
       } else {
-        return false;
+        legalMoves.push({ from, to, onlyMove: true });
       }
-    });
+    }
+
+    return legalMoves;
   }
 
   getKingPosition(color: Color): Position {
@@ -694,238 +1185,537 @@ export class Chesspirito {
   }
 
   private inCheck(color: Color) {
-    const kingPos = this.getKingPosition(color);
-    const opponentColor = getOppositeColor(color);
+    return this.board0x88.inCheck(color === "w" ? WHITE : BLACK);
+  }
+
+  private handleNextTurn(legalMoves: Move[], check: boolean) {
+    this.check = check ? this.playingColor : null;
+
+    if (this.drawOffer === this.playingColor) {
+      this.drawOffer = null;
+    }
+
+    this.currLegalMoves = legalMoves;
+    this.currCastlingRights = this.generateCastlingRights(this.playingColor);
+    this.positionHistory.push(this.hash());
+
+    const variantGameOver = this.variant.getGameOver?.(this) ?? null;
+
+    if (variantGameOver !== null) {
+      this.endGame(variantGameOver.result, variantGameOver.termination);
+    } else if (legalMoves.length === 0) {
+      if (check) {
+        this.endGame(this.playingColor === "w" ? "0-1" : "1-0", "checkmate");
+      } else {
+        this.endGame("1/2-1/2", "stalemate");
+      }
+    } else {
+      const automaticDraw = this.getAutomaticDrawTermination();
 
-    return this.isSquareAttacked(opponentColor, kingPos);
+      if (automaticDraw !== null) {
+        this.endGame("1/2-1/2", automaticDraw);
+      }
+    }
   }
 
-  private handleNextTurn({
-    mate,
-    draw,
-    nextLegalMoves,
-  }: {
-    mate: boolean;
-    draw: boolean;
-    nextLegalMoves: Move[];
-  }) {
-    if (mate || draw) {
-      this.currLegalMoves = [];
-      this.currCastlingRights = { queenside: null, kingside: null };
+  private getAutomaticDrawTermination(): Termination | null {
+    if (
+      this.variant.insufficientMaterialDraws &&
+      this.isInsufficientMaterial()
+    ) {
+      return "insufficientMaterial";
     }
 
-    if (mate) {
-      this.gameOver = this.playingColor === "w" ? "1-0" : "0-1";
-    } else if (draw) {
-      this.gameOver = "0-0";
+    if (this.getRepetitionCount() >= 5) {
+      return "repetition";
+    }
+
+    if (this.halfmoveClock >= 150) {
+      return "fiftyMove";
+    }
+
+    return null;
+  }
+
+  private endGame(result: GameResult, termination: Termination) {
+    this.gameOver = { result, termination };
+    this.clock?.pause();
+    this.drawOffer = null;
+    this.currLegalMoves = [];
+    this.currCastlingRights = { queenside: null, kingside: null };
+  }
+
+  // The 0x88 board already drops rights as kings and rooks move or rooks are
+  // captured, so the availability is read off its castling rooks.
+  private getCastlingAvailability(): CastlingAvailability {
+    const [wq, wk, bq, bk] = this.board0x88.castlingRooks;
+
+    return {
+      w: { queenside: wq !== -1, kingside: wk !== -1 },
+      b: { queenside: bq !== -1, kingside: bk !== -1 },
+    };
+  }
+
+  hash(): bigint {
+    return this.board0x88.hash();
+  }
+
+  getRepetitionCount(): number {
+    const currHash = this.positionHistory[this.positionHistory.length - 1];
+
+    return this.positionHistory.filter((hash) => hash === currHash).length;
+  }
+
+  isThreefoldRepetition(): boolean {
+    return this.getRepetitionCount() >= 3;
+  }
+
+  isFiftyMoveRule(): boolean {
+    return this.halfmoveClock >= 100;
+  }
+
+  isInsufficientMaterial(): boolean {
+    return isInsufficientMaterial(
+      this.board.flat().filter((piece): piece is ChessPiece => piece !== null),
+    );
+  }
+
+  private hasInsufficientMaterialToWin(color: Color): boolean {
+    return isInsufficientMaterial(
+      this.board
+        .flat()
+        .filter(
+          (piece): piece is ChessPiece =>
+            piece !== null && piece.color === color,
+        ),
+    );
+  }
+
+  setClock(clock: ChessClock | null) {
+    this.clock?.pause();
+    this.clock = clock;
+  }
+
+  // Winds the clock back to the times recorded with the moves still in the
+  // history, as if later moves never were, and leaves it paused until the
+  // next move presses it.
+  restoreClock() {
+    if (this.clock === null) return;
+
+    for (const color of ["w", "b"] as const) {
+      const timedMoves = this.history.filter(
+        (move) => move.piece.color === color && move.clock !== null,
+      );
+
+      this.clock.restore(
+        color,
+        timedMoves.length,
+        timedMoves[timedMoves.length - 1]?.clock ?? null,
+      );
+    }
+  }
+
+  checkTimeout(): boolean {
+    if (
+      this.clock === null ||
+      this.gameOver !== null ||
+      !this.clock.hasFlagged(this.playingColor)
+    ) {
+      return false;
+    }
+
+    const opponentColor = getOppositeColor(this.playingColor);
+
+    if (
+      this.variant.insufficientMaterialDraws &&
+      this.hasInsufficientMaterialToWin(opponentColor)
+    ) {
+      this.endGame("1/2-1/2", "timeoutVsInsufficientMaterial");
     } else {
-      this.togglePlayingColor();
-      this.currLegalMoves = nextLegalMoves;
-      this.currCastlingRights = this.generateCastlingRights(this.playingColor);
+      this.endGame(opponentColor === "w" ? "1-0" : "0-1", "timeout");
+    }
+
+    this.emit("gameOver", this.gameOver!);
+
+    return true;
+  }
+
+  canClaimDraw(): boolean {
+    return (
+      this.gameOver === null &&
+      (this.isThreefoldRepetition() || this.isFiftyMoveRule())
+    );
+  }
+
+  claimDraw() {
+    if (!this.canClaimDraw()) {
+      throw new Error("Invalid draw claim = no claimable draw");
+    }
+
+    this.endGame(
+      "1/2-1/2",
+      this.isThreefoldRepetition() ? "repetition" : "fiftyMove",
+    );
+    this.emit("gameOver", this.gameOver!);
+  }
+
+  resign(color: Color) {
+    if (this.gameOver !== null) {
+      throw new Error("Invalid resignation = GameOver");
+    }
+
+    this.endGame(color === "w" ? "0-1" : "1-0", "resignation");
+    this.emit("gameOver", this.gameOver!);
+  }
+
+  // Ends the game with a result reached off the board, such as the one a PGN
+  // gives for moves that stop short of it.
+  setResult(result: GameResult, termination: Termination) {
+    if (this.gameOver !== null) {
+      throw new Error("Invalid result = GameOver");
     }
+
+    this.endGame(result, termination);
+    this.emit("gameOver", this.gameOver!);
+  }
+
+  offerDraw(color: Color) {
+    if (this.gameOver !== null) {
+      throw new Error("Invalid draw offer = GameOver");
+    }
+
+    this.drawOffer = color;
+  }
+
+  acceptDraw(color: Color) {
+    if (this.gameOver !== null) {
+      throw new Error("Invalid draw acceptance = GameOver");
+    }
+
+    if (this.drawOffer !== getOppositeColor(color)) {
+      throw new Error("Invalid draw acceptance = no draw offered");
+    }
+
+    this.endGame("1/2-1/2", "agreement");
+    this.emit("gameOver", this.gameOver!);
   }
 
   generateCastlingRights(color: Color): CastlingRights {
     const castlingRights: CastlingRights = { queenside: null, kingside: null };
 
-    if (this.inCheck(this.playingColor)) {
+    if (color !== this.playingColor) {
       return castlingRights;
     }
 
-    const king = this.getSquare(this.getKingPosition(color))!;
+    const colorIndex = color === "w" ? WHITE : BLACK;
 
-    if (king.history.length > 0) {
-      return castlingRights;
+    for (const move of this.board0x88.generateCastlingMoves()) {
+      if (!this.board0x88.isMoveAllowed(move)) continue;
+
+      const isQueenside = getMoveFlag(move) === CASTLE_QUEENSIDE;
+      const rookSquare =
+        this.board0x88.castlingRooks[colorIndex * 2 + (isQueenside ? 0 : 1)];
+      const target = fromSquare(getMoveTo(move));
+
+      castlingRights[isQueenside ? "queenside" : "kingside"] = {
+        target,
+        rook: {
+          from: fromSquare(rookSquare),
+          to: { y: target.y, x: isQueenside ? 3 : 5 },
+        },
+      };
     }
 
-    const isCastlingSideValid = (
-      rookPos: Position,
-      emptySquaresRequired: Position[],
-    ): boolean => {
-      const rook = this.getSquare(rookPos);
+    return castlingRights;
+  }
 
-      if (rook === null || rook.history.length > 0) {
-        return false;
-      }
+  // The king castles either by moving onto its own rook, as Chess960 games
+  // are usually entered, or straight to its final square when that is not
+  // also an ordinary king move.
+  private getCastlingRight(from: Position, to: Position): CastlingRight | null {
+    if (!isSamePosition(from, this.getKingPosition(this.playingColor))) {
+      return null;
+    }
 
-      for (const pos of emptySquaresRequired) {
-        if (!this.isSquareEmpty(pos)) {
-          return false;
-        }
-      }
+    const isLegalMove = this.currLegalMoves.some(
+      (move) => isSamePosition(move.from, from) && isSamePosition(move.to, to),
+    );
 
-      const notAttackedSquaresRequired = emptySquaresRequired.slice(0, 2);
-      const opponentColor = getOppositeColor(this.playingColor);
+    for (const castlingRight of [
+      this.currCastlingRights.queenside,
+      this.currCastlingRights.kingside,
+    ]) {
+      if (castlingRight === null) continue;
 
-      for (const target of notAttackedSquaresRequired) {
-        if (this.isSquareAttacked(opponentColor, target)) {
-          return false;
-        }
+      if (
+        isSamePosition(castlingRight.rook.from, to) ||
+        (isSamePosition(castlingRight.target, to) && !isLegalMove)
+      ) {
+        return castlingRight;
       }
+    }
 
-      return true;
-    };
+    return null;
+  }
 
-    if (this.playingColor === "w") {
-      const queensideRook: Position = { y: 7, x: 0 };
-      const queensideEmptySquaresRequired: Position[] = [
-        { y: 7, x: 3 },
-        { y: 7, x: 2 },
-        { y: 7, x: 1 },
-      ];
-
-      if (isCastlingSideValid(queensideRook, queensideEmptySquaresRequired)) {
-        castlingRights.queenside = {
-          target: { y: 7, x: 2 },
-          rook: {
-            from: queensideRook,
-            to: { y: 7, x: 3 },
-          },
-        };
-      }
+  isCastling(from: Position, to: Position): boolean {
+    return this.getCastlingRight(from, to) !== null;
+  }
 
-      const kingsideRook: Position = { y: 7, x: 7 };
-      const kingsideEmptySquaresRequired: Position[] = [
-        { y: 7, x: 5 },
-        { y: 7, x: 6 },
-      ];
-
-      if (isCastlingSideValid(kingsideRook, kingsideEmptySquaresRequired)) {
-        castlingRights.kingside = {
-          target: { y: 7, x: 6 },
-          rook: {
-            from: kingsideRook,
-            to: { y: 7, x: 5 },
-          },
-        };
-      }
+  private encodeMoveDescriptor({
+    piece,
+    from,
+    to,
+    capture,
+    promotion,
+    castling,
+  }: MoveDescriptor): number {
+    let flag = QUIET;
+
+    if (castling !== null) {
+      flag = castling.from.x < from.x ? CASTLE_QUEENSIDE : CASTLE_KINGSIDE;
+    } else if (capture !== null) {
+      flag = isSamePosition(capture.position, to) ? CAPTURE : EN_PASSANT;
+    } else if (piece instanceof Pawn && Math.abs(to.y - from.y) === 2) {
+      flag = DOUBLE_PUSH;
+    }
+
+    return encodeMove(
+      toSquare(from),
+      toSquare(to),
+      flag,
+      promotion !== null ? getPieceCode(promotion.type.toUpperCase()) : EMPTY,
+    );
+  }
+
+  private makeMove(descriptor: MoveDescriptor) {
+    const { piece, from, to, capture, promotion, castling } = descriptor;
+
+    this.irreversibleStates.push(
+      Object.freeze({
+        capture,
+        castlingRights: this.currCastlingRights,
+        enPassantable: this.enPassantable,
+        halfmoveClock: this.halfmoveClock,
+        fullmoveNumber: this.fullmoveNumber,
+        check: this.check,
+        legalMoves: this.currLegalMoves,
+        gameOver: this.gameOver,
+        drawOffer: this.drawOffer,
+      }),
+    );
+
+    if (capture !== null) {
+      this.setSquare(capture.position, null);
+    }
+
+    this.setSquare(from, null);
+
+    if (castling !== null) {
+      this.setSquare(castling.from, null);
+      this.setSquare(castling.to, castling.rook);
+      castling.rook.history.push(castling.from);
+    }
+
+    this.setSquare(to, promotion ?? piece);
+    piece.history.push(from);
+
+    const isDoublePush = piece instanceof Pawn && Math.abs(to.y - from.y) === 2;
+
+    this.enPassantable = isDoublePush ? to : null;
+
+    if (piece instanceof Pawn || capture !== null) {
+      this.halfmoveClock = 0;
     } else {
-      const queensideRook: Position = { y: 0, x: 0 };
-      const queensideEmptySquaresRequired: Position[] = [
-        { y: 0, x: 3 },
-        { y: 0, x: 2 },
-        { y: 0, x: 1 },
-      ];
-
-      if (isCastlingSideValid(queensideRook, queensideEmptySquaresRequired)) {
-        castlingRights.queenside = {
-          target: { y: 0, x: 2 },
-          rook: {
-            from: queensideRook,
-            to: { y: 0, x: 3 },
-          },
-        };
-      }
+      this.halfmoveClock++;
+    }
 
-      const kingsideRook: Position = { y: 0, x: 7 };
-      const kingsideEmptySquaresRequired: Position[] = [
-        { y: 0, x: 5 },
-        { y: 0, x: 6 },
-      ];
-
-      if (isCastlingSideValid(kingsideRook, kingsideEmptySquaresRequired)) {
-        castlingRights.kingside = {
-          target: { y: 0, x: 6 },
-          rook: {
-            from: kingsideRook,
-            to: { y: 0, x: 5 },
-          },
-        };
-      }
+    if (this.playingColor === "b") {
+      this.fullmoveNumber++;
     }
 
-    return castlingRights;
+    this.board0x88.makeMove(this.encodeMoveDescriptor(descriptor));
+    this.castlingAvailability = this.getCastlingAvailability();
+    this.togglePlayingColor();
   }
 
-  private handleCastlingMove(king: King, from: Position, to: Position) {
-    const isQueensideMove = from.x > to.x;
-    const castlingRights = this.currCastlingRights;
+  private unmakeMove(descriptor: MoveDescriptor, state: IrreversibleState) {
+    const { piece, from, to, promotion, castling } = descriptor;
 
-    if (
-      (castlingRights.queenside === null && castlingRights.kingside === null) ||
-      (isQueensideMove && castlingRights.queenside === null) ||
-      (!isQueensideMove && castlingRights.kingside === null)
-    ) {
-      throw new Error("Invalid castling");
+    this.board0x88.unmakeMove(this.encodeMoveDescriptor(descriptor));
+    this.setSquare(to, null);
+
+    if (castling !== null) {
+      this.setSquare(castling.to, null);
+      this.setSquare(castling.from, castling.rook);
+      castling.rook.history.pop();
     }
 
-    let rook: Rook;
-    let rookFrom: Position;
-    let rookTo: Position;
+    this.setSquare(from, piece);
+    piece.history.pop();
 
-    if (isQueensideMove) {
-      const queensideRook = castlingRights.queenside!.rook;
-      rook = this.getSquare(queensideRook.from)!;
-      rookFrom = queensideRook.from;
-      rookTo = queensideRook.to;
-    } else {
-      const kingsideRook = castlingRights.kingside!.rook;
-      rook = this.getSquare(kingsideRook.from)!;
-      rookFrom = kingsideRook.from;
-      rookTo = kingsideRook.to;
+    if (state.capture !== null) {
+      this.setSquare(state.capture.position, state.capture);
     }
 
-    this.setSquare(to, king);
-    this.setSquare(from, null);
+    if (promotion !== null) {
+      promotion.position = to;
+    }
 
-    this.setSquare(rookTo, rook);
-    this.setSquare(rookFrom, null);
+    this.playingColor = piece.color;
+    this.positionHistory.pop();
+
+    this.castlingAvailability = this.getCastlingAvailability();
+    this.currCastlingRights = state.castlingRights;
+    this.enPassantable = state.enPassantable;
+    this.halfmoveClock = state.halfmoveClock;
+    this.fullmoveNumber = state.fullmoveNumber;
+    this.check = state.check;
+    this.currLegalMoves = state.legalMoves;
+    this.gameOver = state.gameOver;
+    this.drawOffer = state.drawOffer;
+  }
 
-    const opponentColor = getOppositeColor(this.playingColor);
-    const opponentLegalMoves = this.generateLegalMoves(opponentColor);
-    const check = this.inCheck(opponentColor);
+  private parseMove(notation: string): ParsedMove {
+    const uci = notation.match(/^([a-h][1-8])([a-h][1-8])([nbrq])?$/);
+
+    if (uci !== null) {
+      return {
+        from: this.getPositionFromMove(uci[1]),
+        to: this.getPositionFromMove(uci[2]),
+        promotion: uci[3] ? (uci[3].toUpperCase() as Promotion) : null,
+      };
+    }
 
-    this.check = check ? opponentColor : null;
+    const san = notation
+      .trim()
+      .replace(/\s*e\.p\.$/, "")
+      .replace(/[!?]+$/, "")
+      .replace(/[+#]$/, "");
 
-    let mate = false;
-    let draw = false;
+    if (/^(O-O|0-0)(-O|-0)?$/.test(san)) {
+      const isQueenside = san.length === 5;
+      const castlingRight = isQueenside
+        ? this.currCastlingRights.queenside
+        : this.currCastlingRights.kingside;
 
-    if (opponentLegalMoves.length === 0) {
-      if (check) {
-        mate = true;
-      } else {
-        draw = true;
+      if (castlingRight === null) {
+        throw new Error("Invalid move = castling not allowed " + notation);
       }
+
+      return {
+        from: this.getKingPosition(this.playingColor),
+        to: castlingRight.rook.from,
+        promotion: null,
+      };
     }
 
-    king.history.push(from);
-    rook.history.push(rookFrom);
+    const match = san.match(
+      /^([NBRQK])?([a-h])?([1-8])?(x)?([a-h][1-8])(?:=?([NBRQ]))?$/,
+    );
 
-    let san = isQueensideMove ? "O-O-O" : "O-O";
+    if (match === null) {
+      throw new Error("Invalid move = unrecognized notation " + notation);
+    }
 
-    if (mate) {
-      san += "#";
-    } else if (check) {
-      san += "+";
+    const [, pieceLetter, fromFile, fromRank, capture, target, promotion] =
+      match;
+
+    const to = this.getPositionFromMove(target);
+    const type = (pieceLetter ?? "P") as Promotion | "P" | "K";
+
+    if (type === "P" && capture && fromFile === undefined) {
+      throw new Error("Invalid move = pawn capture without file " + notation);
     }
 
-    this.history.push({
-      from,
-      to,
-      capture: null,
-      promotion: null,
-      castling: rook,
-      lan: san,
+    const candidates = this.currLegalMoves.filter((move) => {
+      const piece = this.getSquare(move.from);
+
+      if (
+        piece === null ||
+        piece.type.toUpperCase() !== type ||
+        !isSamePosition(move.to, to)
+      ) {
+        return false;
+      }
+
+      const fromMove = this.getMoveFromPosition(move.from);
+
+      return (
+        (fromFile === undefined || fromMove[0] === fromFile) &&
+        (fromRank === undefined || fromMove[1] === fromRank)
+      );
     });
 
-    this.handleNextTurn({ mate, draw, nextLegalMoves: opponentLegalMoves });
+    if (candidates.length === 0) {
+      throw new Error("Invalid move = illegal " + notation);
+    }
+
+    if (candidates.length > 1) {
+      throw new Error("Invalid move = ambiguous " + notation);
+    }
+
+    if (capture && this.isSquareEmpty(to) && !candidates[0].enPassant) {
+      throw new Error("Invalid move = nothing to capture " + notation);
+    }
+
+    const lastRank = this.playingColor === "w" ? 0 : 7;
+    const isPromotion = type === "P" && to.y === lastRank;
+
+    if (isPromotion && promotion === undefined) {
+      throw new Error("Invalid move = missing promotion piece " + notation);
+    }
+
+    if (!isPromotion && promotion !== undefined) {
+      throw new Error("Invalid move = unexpected promotion " + notation);
+    }
+
+    return {
+      from: candidates[0].from,
+      to,
+      promotion: (promotion as Promotion | undefined) ?? null,
+    };
   }
 
+  move(notation: string): void;
   move(
     from: SanPosition | Position,
     to: SanPosition | Position,
+    promotion?: Promotion,
+  ): void;
+  move(
+    from: string | Position,
+    to?: SanPosition | Position,
     promotion: Promotion = "Q",
-  ) {
+  ): void {
+    this.checkTimeout();
+
     if (this.gameOver !== null) {
       throw new Error("Invalid move = GameOver");
     }
 
+    if (to === undefined) {
+      if (typeof from !== "string") {
+        throw new Error("Invalid move = missing target square");
+      }
+
+      const parsedMove = this.parseMove(from);
+
+      return this.move(
+        parsedMove.from,
+        parsedMove.to,
+        parsedMove.promotion ?? undefined,
+      );
+    }
+
     const fromPos =
       typeof from === "string" ? this.getPositionFromMove(from) : from;
     const toPos = typeof to === "string" ? this.getPositionFromMove(to) : to;
 
     const fromMove =
-      typeof from === "object" ? this.getMoveFromPosition(from) : from;
+      typeof from === "object"
+        ? this.getMoveFromPosition(from)
+        : (from as SanPosition);
     const toMove = typeof to === "object" ? this.getMoveFromPosition(to) : to;
 
     if (isPositionOutOfBounds(fromPos) || isPositionOutOfBounds(toPos)) {
@@ -943,7 +1733,10 @@ export class Chesspirito {
       throw new Error("Invalid move = not playing color");
     }
 
-    if (targetPiece?.color === this.playingColor) {
+    const castlingRight =
+      piece instanceof King ? this.getCastlingRight(fromPos, toPos) : null;
+
+    if (castlingRight === null && targetPiece?.color === this.playingColor) {
       throw new Error("Invalid move = cannot move to friendly piece");
     }
 
@@ -951,167 +1744,394 @@ export class Chesspirito {
       throw new Error("Invalid move = King cannot be captured");
     }
 
-    if (
-      piece instanceof King &&
-      fromPos.y === toPos.y &&
-      Math.abs(toPos.x - fromPos.x) === 2
-    ) {
-      return this.handleCastlingMove(piece, fromPos, toPos);
-    }
+    const disambiguation = this.getSanDisambiguation(piece, fromPos, toPos);
 
-    const attacking = targetPiece !== null;
+    let descriptor: MoveDescriptor;
     let enPassant = false;
 
-    const isLegalMove = this.currLegalMoves.some((move) => {
-      const validPosition =
-        isSamePosition(move.from, fromPos) && isSamePosition(move.to, toPos);
+    if (castlingRight !== null) {
+      descriptor = {
+        piece,
+        from: fromPos,
+        to: castlingRight.target,
+        capture: null,
+        promotion: null,
+        castling: {
+          rook: this.getSquare(castlingRight.rook.from)!,
+          from: castlingRight.rook.from,
+          to: castlingRight.rook.to,
+        },
+      };
+    } else {
+      const legalMove = this.currLegalMoves.find(
+        (move) =>
+          isSamePosition(move.from, fromPos) && isSamePosition(move.to, toPos),
+      );
 
-      if (!validPosition) {
-        return false;
+      if (legalMove === undefined) {
+        throw new Error("Invalid move = " + fromMove + "-" + toMove);
       }
 
-      if (move.enPassant) {
-        enPassant = true;
+      enPassant = legalMove.enPassant === true;
+
+      const lastRank = this.playingColor === "w" ? 0 : 7;
+      const isPromotion = piece instanceof Pawn && toPos.y === lastRank;
+
+      descriptor = {
+        piece,
+        from: fromPos,
+        to: toPos,
+        capture: enPassant ? this.getSquare(this.enPassantable!) : targetPiece,
+        promotion: isPromotion
+          ? PromotionChessPieceFactory.create(this, promotion, toPos)
+          : null,
+        castling: null,
+      };
+    }
+
+    this.makeMove(descriptor);
+
+    const legalMoves = this.generateLegalMoves();
+    const check = this.inCheck(this.playingColor);
+    const mate = check && legalMoves.length === 0;
+
+    let san: string;
+    let lan: string;
+
+    if (descriptor.castling !== null) {
+      san = descriptor.castling.from.x < fromPos.x ? "O-O-O" : "O-O";
+
+      if (mate) {
+        san += "#";
+      } else if (check) {
+        san += "+";
       }
 
-      return true;
+      lan = san;
+    } else {
+      const sanGenerationOptions: SanGenerationOptions = {
+        piece,
+        from: fromMove,
+        to: toMove,
+        disambiguation,
+        capture: descriptor.capture !== null,
+        promotion: descriptor.promotion !== null ? promotion : null,
+        enPassant,
+        check,
+        mate,
+      };
+
+      san = this.generateSanFromMove(sanGenerationOptions);
+      lan = this.generateLanFromMove(sanGenerationOptions);
+    }
+
+    const clockPress = this.clock?.press(piece.color) ?? null;
+
+    this.history.push({
+      ...descriptor,
+      san,
+      lan,
+      promotionType: descriptor.promotion !== null ? promotion : null,
+      clock: clockPress?.remaining ?? null,
+      timeSpent: clockPress?.timeSpent ?? null,
     });
+    this.undoneMoves = [];
+    this.handleNextTurn(legalMoves, check);
+    this.emitMoveEvents();
+  }
+
+  undo() {
+    const lastMove = this.history.pop();
+    const state = this.irreversibleStates.pop();
 
-    if (!isLegalMove) {
-      throw new Error("Invalid move = " + fromMove + "-" + toMove);
+    if (!lastMove || !state) {
+      throw new Error("Invalid undo = clean history");
     }
 
-    let capture = targetPiece;
+    this.unmakeMove(lastMove, state);
+    this.undoneMoves.push(lastMove);
+    this.restoreClock();
+    this.emit("undo", { move: lastMove, fen: this.fen() });
+  }
+
+  canRedo(): boolean {
+    return this.undoneMoves.length > 0;
+  }
 
-    this.setSquare(toPos, piece);
-    this.setSquare(fromPos, null);
+  redo() {
+    const nextMove = this.undoneMoves.pop();
 
-    if (this.enPassantable && enPassant) {
-      capture = this.getSquare(this.enPassantable);
-      this.setSquare(this.enPassantable, null);
+    if (!nextMove) {
+      throw new Error("Invalid redo = no undone moves");
     }
 
-    let hasPromoted = false;
+    // Replaying the move clears the redo stack, so the rest is put back after.
+    const undoneMoves = this.undoneMoves;
 
-    if (piece instanceof Pawn) {
-      if (!attacking && Math.abs(toPos.y - fromPos.y) === 2) {
-        this.enPassantable = toPos;
-      } else {
-        this.enPassantable = null;
-      }
+    try {
+      this.move(nextMove.san);
+    } catch (err) {
+      undoneMoves.push(nextMove);
+      throw err;
+    } finally {
+      this.undoneMoves = undoneMoves;
+    }
+  }
 
-      const lastRank = this.playingColor === "w" ? 0 : 7;
+  positionAt(ply: number): Chesspirito {
+    if (!Number.isInteger(ply) || ply < 0 || ply > this.history.length) {
+      throw new Error("Invalid ply = " + ply);
+    }
 
-      if (toPos.y === lastRank) {
-        const newPiece = PromotionChessPieceFactory.create(
-          this,
-          promotion,
-          toPos,
-        );
+    const position = new Chesspirito(this.startFen, {
+      chess960: this.chess960,
+      variant: this.variant,
+    });
 
-        this.setSquare(toPos, newPiece);
-        hasPromoted = true;
-      }
+    for (const { san } of this.history.slice(0, ply)) {
+      position.move(san);
     }
 
-    const opponentColor = getOppositeColor(this.playingColor);
+    return position;
+  }
 
-    const opponentLegalMoves = this.generateLegalMoves(opponentColor);
-    const check = this.inCheck(opponentColor);
+  fen({ shredder = false }: FenOptions = {}): string {
+    const placement = this.board
+      .map((rank) => {
+        let fenRank = "";
+        let emptySquares = 0;
 
-    this.check = check ? opponentColor : null;
+        for (const square of rank) {
+          if (square === null) {
+            emptySquares++;
+            continue;
+          }
 
-    let mate = false;
-    let draw = false;
+          if (emptySquares > 0) {
+            fenRank += emptySquares;
+            emptySquares = 0;
+          }
 
-    if (opponentLegalMoves.length === 0) {
-      if (check) {
-        mate = true;
+          fenRank += square.type;
+        }
+
+        if (emptySquares > 0) {
+          fenRank += emptySquares;
+        }
+
+        return fenRank;
+      })
+      .join("/");
+
+    const [wq, wk, bq, bk] = this.board0x88.castlingRooks;
+    let castling = "";
+
+    for (const [square, letter] of [
+      [wk, "K"],
+      [wq, "Q"],
+      [bk, "k"],
+      [bq, "q"],
+    ] as const) {
+      if (square === -1) continue;
+
+      const { x, y } = fromSquare(square);
+      const rook = this.getSquare({ x, y })!;
+      const step = letter === "K" || letter === "k" ? 1 : -1;
+
+      // X-FEN only spells out the file when another rook stands further out.
+      let isOutermost = true;
+
+      for (let i = x + step; !isOutOfBounds(i); i += step) {
+        isOutermost &&= this.getSquare({ x: i, y })?.type !== rook.type;
+      }
+
+      if (isOutermost && !shredder) {
+        castling += letter;
       } else {
-        draw = true;
+        castling += rook.color === "w" ? FILES[x].toUpperCase() : FILES[x];
       }
     }
 
-    piece.history.push(fromPos);
-    this.history.push({
-      from: fromPos,
-      to: toPos,
-      capture,
-      promotion: hasPromoted ? piece : null,
-      castling: null,
-      lan: this.generateLanFromMove({
-        piece,
-        from: fromMove,
-        to: toMove,
-        capture: capture !== null,
-        promotion: hasPromoted ? promotion : null,
-        enPassant,
-        check,
-        mate,
-      }),
-    });
+    let enPassant = "-";
+
+    if (this.enPassantable !== null) {
+      const pawn = this.getSquare(this.enPassantable)!;
 
-    this.handleNextTurn({ mate, draw, nextLegalMoves: opponentLegalMoves });
+      enPassant = this.getMoveFromPosition({
+        y: this.enPassantable.y + (pawn.color === "w" ? 1 : -1),
+        x: this.enPassantable.x,
+      });
+    }
+
+    return [
+      placement,
+      this.playingColor,
+      castling || "-",
+      enPassant,
+      this.halfmoveClock,
+      this.fullmoveNumber,
+    ].join(" ");
   }
 
-  undo() {
-    const lastMove = this.history.pop();
+  pgn({ headers = {} }: PgnOptions = {}): string {
+    const result = this.gameOver?.result ?? "*";
+
+    const tags: Record<string, string> = {
+      Event: "?",
+      Site: "?",
+      Date: "????.??.??",
+      Round: "?",
+      White: "?",
+      Black: "?",
+      ...headers,
+      Result: result,
+    };
 
-    if (!lastMove) {
-      throw new Error("Invalid undo = clean history");
+    if (this.variant !== STANDARD) {
+      tags.Variant = this.variant.name;
+    } else if (this.chess960) {
+      tags.Variant = "Chess960";
     }
 
-    const movedPiece = this.getSquare(lastMove.to);
-
-    if (movedPiece === null) {
-      throw new Error("Invalid undo = unexpected nullish piece");
+    if (this.startFen !== STANDARD.startFen || this.chess960) {
+      tags.SetUp = "1";
+      tags.FEN = this.startFen;
     }
 
-    movedPiece.history.pop();
+    const tagNames = [
+      ...SEVEN_TAG_ROSTER,
+      ...Object.keys(tags).filter(
+        (name) => !(SEVEN_TAG_ROSTER as readonly string[]).includes(name),
+      ),
+    ];
 
-    if (lastMove.promotion !== null) {
-      this.setSquare(lastMove.from, lastMove.promotion);
-      lastMove.promotion.history.pop();
-    } else {
-      this.setSquare(lastMove.from, movedPiece);
-    }
+    const tagPairs = tagNames.map(
+      (name) => "[" + name + ' "' + escapePgnTagValue(tags[name]) + '"]',
+    );
 
-    if (lastMove.capture !== null) {
-      if (isSamePosition(lastMove.to, lastMove.capture.position)) {
-        this.setSquare(lastMove.to, lastMove.capture);
+    const startFenParts = this.startFen.split(" ");
+    let color = startFenParts[1] as Color;
+    let moveNumber = Number(startFenParts[5]);
+
+    const tokens: string[] = [];
+
+    this.history.forEach((move, i) => {
+      if (color === "w") {
+        tokens.push(moveNumber + ".");
+      } else if (i === 0 || this.history[i - 1].clock !== null) {
+        tokens.push(moveNumber + "...");
+      }
+
+      tokens.push(move.san);
+
+      if (move.clock !== null) {
+        tokens.push("{[%clk " + formatPgnClock(move.clock) + "]}");
+      }
+
+      if (color === "b") {
+        moveNumber++;
+      }
+
+      color = getOppositeColor(color);
+    });
+
+    tokens.push(result);
+
+    const lines: string[] = [];
+    let line = "";
+
+    for (const token of tokens) {
+      if (line.length > 0 && line.length + 1 + token.length > PGN_LINE_LENGTH) {
+        lines.push(line);
+        line = token;
       } else {
-        this.setSquare(lastMove.capture.position, lastMove.capture);
-        this.setSquare(lastMove.to, null);
-        this.enPassantable = lastMove.capture.position;
+        line = line.length > 0 ? line + " " + token : token;
       }
-    } else {
-      this.setSquare(lastMove.to, null);
     }
 
-    if (lastMove.castling !== null) {
-      const rookFrom = lastMove.castling.history.pop();
+    lines.push(line);
 
-      if (!rookFrom) {
-        throw new Error("Invalid undo = unexpected castling error");
-      }
+    return tagPairs.join("\n") + "\n\n" + lines.join("\n") + "\n";
+  }
 
-      this.setSquare(lastMove.castling.position, null);
-      this.setSquare(rookFrom, lastMove.castling);
+  perft(depth: number): number {
+    if (!Number.isInteger(depth) || depth < 0) {
+      throw new Error("Invalid depth = " + depth);
     }
 
-    if (this.gameOver === null) {
-      this.togglePlayingColor();
+    return this.board0x88.perft(depth);
+  }
+
+  divide(depth: number): Record<string, number> {
+    if (!Number.isInteger(depth) || depth < 1) {
+      throw new Error("Invalid depth = " + depth);
     }
 
-    if (this.inCheck(this.playingColor)) {
-      this.check = this.playingColor;
-    } else {
-      this.check = null;
+    const nodes: Record<string, number> = {};
+
+    for (const move of this.board0x88.generateLegalMoves()) {
+      const uci = this.board0x88.toUci(move);
+
+      this.board0x88.makeMove(move);
+      nodes[uci] = this.board0x88.perft(depth - 1);
+      this.board0x88.unmakeMove(move);
     }
 
-    this.gameOver = null;
-    this.currLegalMoves = this.generateLegalMoves(this.playingColor);
-    this.currCastlingRights = this.generateCastlingRights(this.playingColor);
+    return nodes;
+  }
+
+  bestMove(
+    options: SearchOptions = {},
+    onIteration?: (result: SearchResult) => void,
+    shouldStop?: () => boolean,
+  ): SearchResult {
+    this.validateSearchOptions(options);
+
+    return search(
+      this.board0x88.clone(),
+      options,
+      this.getTranspositionTable(),
+      this.positionHistory,
+      onIteration,
+      shouldStop,
+    );
+  }
+
+  analyze(
+    options: SearchOptions = {},
+    shouldStop?: () => boolean,
+  ): Generator<SearchResult, void> {
+    this.validateSearchOptions(options);
+
+    return iterativeDeepening(
+      this.board0x88.clone(),
+      options,
+      this.getTranspositionTable(),
+      this.positionHistory.slice(),
+      shouldStop,
+    );
+  }
+
+  private getTranspositionTable(): TranspositionTable {
+    if (this.transpositionTable === null) {
+      this.transpositionTable = new TranspositionTable();
+    }
+
+    return this.transpositionTable;
+  }
+
+  private validateSearchOptions({ depth, timeMs }: SearchOptions) {
+    if (this.gameOver !== null) {
+      throw new Error("Invalid search = GameOver");
+    }
+
+    if (depth !== undefined && (!Number.isInteger(depth) || depth < 1)) {
+      throw new Error("Invalid depth = " + depth);
+    }
+
+    if (timeMs !== undefined && !(timeMs > 0)) {
+      throw new Error("Invalid search time = " + timeMs);
+    }
   }
 
   getLegalMoves(from: Position) {
@@ -1119,4 +2139,16 @@ export class Chesspirito {
       isSamePosition(move.from, from),
     );
   }
+
+  isPromotion(from: Position, to: Position): boolean {
+    const piece = this.getSquare(from);
+    const lastRank = this.playingColor === "w" ? 0 : 7;
+
+    return (
+      piece instanceof Pawn &&
+      piece.color === this.playingColor &&
+      to.y === lastRank &&
+      this.getLegalMoves(from).some((move) => isSamePosition(move.to, to))
+    );
+  }
 }
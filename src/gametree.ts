@@ -0,0 +1,272 @@
+import { Chesspirito, HistoryMove, Position, Promotion } from "./engine";
+import { PgnGame, PgnLine } from "./pgn";
+
+export interface GameNode {
+  id: number;
+  san: string | null;
+  comments: string[];
+  nags: number[];
+  clock: number | null;
+  timeSpent: number | null;
+  parent: GameNode | null;
+  children: GameNode[];
+}
+
+function recordMoveTimes(node: GameNode, { clock, timeSpent }: HistoryMove) {
+  node.clock = clock;
+  node.timeSpent = timeSpent;
+}
+
+export class GameTree {
+  chess: Chesspirito;
+  root: GameNode;
+  current: GameNode;
+  private nodes: Map<number, GameNode>;
+  private nextId: number;
+
+  constructor(chess = new Chesspirito()) {
+    this.chess = chess;
+    this.nodes = new Map();
+    this.nextId = 0;
+    this.root = this.createNode(null, null);
+    this.current = this.root;
+
+    for (const move of chess.history) {
+      this.current = this.createNode(this.current, move.san);
+      recordMoveTimes(this.current, move);
+    }
+  }
+
+  // The game's chess instance already sits at the end of the mainline, so
+  // only the annotations and the variations are grafted onto the tree.
+  static fromPgn({ chess, mainline }: PgnGame): GameTree {
+    const tree = new GameTree(chess);
+
+    tree.root.comments.push(...mainline.comments);
+    tree.graftLine(tree.root, mainline, true);
+
+    return tree;
+  }
+
+  private graftLine(parent: GameNode, line: PgnLine, isMainline: boolean) {
+    let node = parent;
+
+    for (const [i, move] of line.moves.entries()) {
+      const child =
+        isMainline || i > 0
+          ? (node.children[0] ?? this.createNode(node, move.san))
+          : this.createNode(node, move.san);
+
+      // Comments opening a variation are kept with its first move.
+      if (!isMainline && i === 0) {
+        child.comments.push(...line.comments);
+      }
+
+      child.comments.push(...move.comments);
+      child.nags.push(...move.nags);
+
+      for (const variation of move.variations) {
+        this.graftLine(node, variation, false);
+      }
+
+      node = child;
+    }
+  }
+
+  private createNode(parent: GameNode | null, san: string | null): GameNode {
+    const node: GameNode = {
+      id: this.nextId++,
+      san,
+      comments: [],
+      nags: [],
+      clock: null,
+      timeSpent: null,
+      parent,
+      children: [],
+    };
+
+    parent?.children.push(node);
+    this.nodes.set(node.id, node);
+
+    return node;
+  }
+
+  getNode(id: number): GameNode {
+    const node = this.nodes.get(id);
+
+    if (node === undefined) {
+      throw new Error("Invalid node = " + id);
+    }
+
+    return node;
+  }
+
+  getPath(node: GameNode): GameNode[] {
+    const path: GameNode[] = [];
+
+    for (let curr: GameNode | null = node; curr !== null; curr = curr.parent) {
+      path.unshift(curr);
+    }
+
+    return path;
+  }
+
+  getMainline(): GameNode[] {
+    const mainline = [this.root];
+
+    while (mainline[mainline.length - 1].children.length > 0) {
+      mainline.push(mainline[mainline.length - 1].children[0]);
+    }
+
+    return mainline;
+  }
+
+  move(notation: string): GameNode;
+  move(from: Position, to: Position, promotion?: Promotion): GameNode;
+  move(from: string | Position, to?: Position, promotion?: Promotion) {
+    if (typeof from === "string") {
+      this.chess.move(from);
+    } else {
+      this.chess.move(from, to!, promotion);
+    }
+
+    const move = this.chess.history[this.chess.history.length - 1];
+    const existing = this.current.children.find(
+      (child) => child.san === move.san,
+    );
+
+    this.current = existing ?? this.createNode(this.current, move.san);
+
+    // Replaying a known move without a clock keeps the times it was played in.
+    if (existing === undefined || move.clock !== null) {
+      recordMoveTimes(this.current, move);
+    }
+
+    return this.current;
+  }
+
+  // Walks back to the common ancestor and replays down to the target. The
+  // clock is detached meanwhile so browsing the tree never spends time, then
+  // wound back to the times recorded with the target's moves.
+  goTo(node: GameNode) {
+    if (this.nodes.get(node.id) !== node) {
+      throw new Error("Invalid node = " + node.id);
+    }
+
+    if (node === this.current) return;
+
+    const currentPath = this.getPath(this.current);
+    const targetPath = this.getPath(node);
+
+    let common = 0;
+
+    while (
+      common < currentPath.length &&
+      common < targetPath.length &&
+      currentPath[common] === targetPath[common]
+    ) {
+      common++;
+    }
+
+    const { clock } = this.chess;
+    this.chess.clock = null;
+
+    try {
+      for (let i = currentPath.length - 1; i >= common; i--) {
+        this.chess.undo();
+      }
+
+      for (let i = common; i < targetPath.length; i++) {
+        this.chess.move(targetPath[i].san!);
+        this.restoreMoveTimes(targetPath[i]);
+      }
+    } finally {
+      this.chess.clock = clock;
+    }
+
+    this.current = node;
+    this.chess.restoreClock();
+  }
+
+  private restoreMoveTimes({ clock, timeSpent }: GameNode) {
+    const move = this.chess.history[this.chess.history.length - 1];
+
+    move.clock = clock;
+    move.timeSpent = timeSpent;
+  }
+
+  positionAt(node: GameNode): Chesspirito {
+    const position = this.chess.positionAt(0);
+
+    for (const { san } of this.getPath(node).slice(1)) {
+      position.move(san!);
+    }
+
+    return position;
+  }
+
+  // The clock stays detached throughout, so the live game's running turn is
+  // left exactly as it was.
+  addVariation(parent: GameNode, moves: string[]): GameNode {
+    const previous = this.current;
+    const firstNewId = this.nextId;
+    const { clock } = this.chess;
+
+    this.chess.clock = null;
+
+    try {
+      this.goTo(parent);
+
+      for (const move of moves) {
+        this.move(move);
+      }
+
+      return this.current;
+    } catch (err) {
+      // Only the part of the line that did not exist before is dropped.
+      const added = this.getPath(this.current).find(
+        (node) => node.id >= firstNewId,
+      );
+
+      if (added !== undefined) {
+        this.deleteBranch(added);
+      }
+
+      throw err;
+    } finally {
+      this.goTo(previous);
+      this.chess.clock = clock;
+    }
+  }
+
+  promoteToMainline(node: GameNode) {
+    for (let curr = node; curr.parent !== null; curr = curr.parent) {
+      const siblings = curr.parent.children;
+
+      siblings.splice(siblings.indexOf(curr), 1);
+      siblings.unshift(curr);
+    }
+  }
+
+  deleteBranch(node: GameNode) {
+    if (node.parent === null) {
+      throw new Error("Invalid delete = cannot delete the root");
+    }
+
+    if (this.getPath(this.current).includes(node)) {
+      this.goTo(node.parent);
+    }
+
+    const siblings = node.parent.children;
+    siblings.splice(siblings.indexOf(node), 1);
+
+    const stack = [node];
+
+    while (stack.length > 0) {
+      const curr = stack.pop()!;
+
+      this.nodes.delete(curr.id);
+      stack.push(...curr.children);
+    }
+  }
+}
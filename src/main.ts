@@ -1,7 +1,54 @@
 import "./style.css";
-import { Chesspirito, Position, isSamePosition } from "./engine";
+import {
+  Chesspirito,
+  Color,
+  GameOver,
+  Position,
+  Promotion,
+  Termination,
+  getChess960Fen,
+  isSamePosition,
+} from "./engine";
+import { parsePgn } from "./pgn";
+import { GameNode, GameTree } from "./gametree";
+import { EngineClient } from "./client";
+import { SearchResult } from "./search";
+import { PolyglotBook } from "./polyglot";
+import { STANDARD, THREE_CHECK, getCheckCount, getVariant } from "./variants";
+import {
+  ChessClock,
+  TimeControlStage,
+  bronstein,
+  fischer,
+  simpleDelay,
+  suddenDeath,
+} from "./clock";
 
-const chess = new Chesspirito();
+let tree: GameTree;
+let chess: Chesspirito;
+let book: PolyglotBook | null = null;
+
+const botEngine = new EngineClient();
+const analysisEngine = new EngineClient();
+
+const BOT_TIME_MS = 1000;
+const ANALYSIS_TIME_MS = 60000;
+const CLOCK_REFRESH_MS = 100;
+
+const MINUTE = 60 * 1000;
+
+const TIME_CONTROLS: Record<string, TimeControlStage[] | null> = {
+  none: null,
+  bullet: suddenDeath(MINUTE),
+  blitz: fischer(3 * MINUTE, 2000),
+  rapid: fischer(10 * MINUTE, 5000),
+  bronstein: bronstein(5 * MINUTE, 3000),
+  delay: simpleDelay(5 * MINUTE, 3000),
+  classical: [
+    { moves: 40, timeMs: 90 * MINUTE, incrementMs: 30000, method: "fischer" },
+    { moves: null, timeMs: 30 * MINUTE, incrementMs: 30000, method: "fischer" },
+  ],
+};
 
 const CHESS_PIECE_IMAGES = {
   P: "/pieces/pawn.png",
@@ -14,24 +61,826 @@ const CHESS_PIECE_IMAGES = {
 
 type ChessPieceImage = keyof typeof CHESS_PIECE_IMAGES;
 
+const PROMOTION_CHOICES: Promotion[] = ["Q", "N", "R", "B"];
+
+const NAG_SYMBOLS: Record<number, string> = {
+  1: "!",
+  2: "?",
+  3: "!!",
+  4: "??",
+  5: "!?",
+  6: "?!",
+};
+
+const FILE_LABELS = "abcdefgh";
+
+const TERMINATION_REASONS: Record<Termination, string> = {
+  checkmate: "checkmate",
+  stalemate: "stalemate",
+  resignation: "resignation",
+  timeout: "timeout",
+  timeoutVsInsufficientMaterial: "timeout vs insufficient material",
+  agreement: "agreement",
+  repetition: "repetition",
+  fiftyMove: "the fifty-move rule",
+  insufficientMaterial: "insufficient material",
+  kingOfTheHill: "reaching the centre",
+  threeCheck: "three checks",
+  raceFinished: "reaching the eighth rank",
+};
+
 const chessboard = document.getElementById("chessboard")!;
+const promotionPicker = document.getElementById("promotion-picker")!;
+const moveFeedback = document.getElementById("move-feedback")!;
 const scoreboard = document.getElementById("scoreboard")!;
+const timeControlSelect = document.getElementById(
+  "time-control",
+) as HTMLSelectElement;
+const newGameBtn = document.getElementById("new-game")!;
+const variantSelect = document.getElementById("variant") as HTMLSelectElement;
+const chess960Checkbox = document.getElementById(
+  "chess960",
+) as HTMLInputElement;
+const chess960Index = document.getElementById(
+  "chess960-index",
+) as HTMLInputElement;
+const whiteClock = document.getElementById("clock-w")!;
+const blackClock = document.getElementById("clock-b")!;
+const flipBoardBtn = document.getElementById("flip-board")!;
 const undoBtn = document.getElementById("undo")!;
+const redoBtn = document.getElementById("redo") as HTMLButtonElement;
+const replayFirstBtn = document.getElementById("replay-first")!;
+const replayPrevBtn = document.getElementById("replay-prev")!;
+const replayNextBtn = document.getElementById("replay-next")!;
+const replayLastBtn = document.getElementById("replay-last")!;
+const promoteVariationBtn = document.getElementById(
+  "promote-variation",
+) as HTMLButtonElement;
+const deleteVariationBtn = document.getElementById(
+  "delete-variation",
+) as HTMLButtonElement;
+const claimDrawBtn = document.getElementById("claim-draw") as HTMLButtonElement;
+const drawOfferBtn = document.getElementById("draw-offer")!;
+const resignBtn = document.getElementById("resign")!;
+const exportPgnBtn = document.getElementById("export-pgn")!;
+const importPgnBtn = document.getElementById("import-pgn")!;
+const importPgnFile = document.getElementById(
+  "import-pgn-file",
+) as HTMLInputElement;
 const gameoverStatus = document.getElementById("gameover-status")!;
+const loadBookBtn = document.getElementById("load-book")!;
+const loadBookFile = document.getElementById(
+  "load-book-file",
+) as HTMLInputElement;
+const bookMovesOutput = document.getElementById("book-moves")!;
+const botMoveBtn = document.getElementById("bot-move") as HTMLButtonElement;
+const analyzeBtn = document.getElementById("analyze")!;
+const botOpponentCheckbox = document.getElementById(
+  "bot-opponent",
+) as HTMLInputElement;
+const analysisOutput = document.getElementById("analysis")!;
+
+newGameBtn.addEventListener("click", () => {
+  const stages = TIME_CONTROLS[timeControlSelect.value];
+
+  try {
+    const variant = getVariant(variantSelect.value);
+    let nextChess = new Chesspirito(undefined, { variant });
+
+    // A blank index picks one of the 960 start positions at random.
+    if (chess960Checkbox.checked) {
+      const index =
+        chess960Index.value !== ""
+          ? Number(chess960Index.value)
+          : Math.floor(Math.random() * 960);
+
+      nextChess = new Chesspirito(getChess960Fen(index), {
+        chess960: true,
+        variant,
+      });
+    }
+
+    loadGameTree(new GameTree(nextChess));
+    chess.setClock(stages !== null ? new ChessClock(stages) : null);
+  } catch (err) {
+    console.error(err);
+    if (err instanceof Error) {
+      alert(err.message);
+    }
+  }
+});
+
+variantSelect.addEventListener("change", () => {
+  renderChess960Availability();
+});
+
+flipBoardBtn.addEventListener("click", () => {
+  setOrientation(orientation === "w" ? "b" : "w");
+});
 
 undoBtn.addEventListener("click", () => {
   try {
-    chess.undo();
+    const { parent } = tree.current;
+
+    if (parent === null) {
+      throw new Error("Invalid undo = clean history");
+    }
+
+    browse(() => tree.goTo(parent));
+  } catch (err) {
+    console.error(err);
+    if (err instanceof Error) {
+      alert(err.message);
+    }
+  }
+});
+
+redoBtn.addEventListener("click", () => {
+  try {
+    const [next] = tree.current.children;
+
+    if (next === undefined) {
+      throw new Error("Invalid redo = no following moves");
+    }
+
+    browse(() => tree.goTo(next));
+  } catch (err) {
+    console.error(err);
+    if (err instanceof Error) {
+      alert(err.message);
+    }
+  }
+});
+
+replayFirstBtn.addEventListener("click", () => setReplayNode(tree.root));
+replayPrevBtn.addEventListener("click", () =>
+  setReplayNode(getViewedNode().parent ?? tree.root),
+);
+replayNextBtn.addEventListener("click", () =>
+  setReplayNode(getNextViewedNode()),
+);
+replayLastBtn.addEventListener("click", () => setReplayNode(tree.current));
+
+scoreboard.addEventListener("click", (e) => {
+  const span = (e.target as Element).closest<HTMLSpanElement>("[data-node]");
+
+  if (span === null || botThinking || choosingPromotion) return;
+
+  try {
+    const node = tree.getNode(Number(span.dataset.node));
+
+    // Timed and bot games are only looked at, so a click cannot take back
+    // moves behind the clock's or the bot's back.
+    if (chess.clock !== null || botOpponentCheckbox.checked) {
+      setReplayNode(node);
+      return;
+    }
+
+    browse(() => tree.goTo(node));
+    replay = null;
+    renderChessboardFrame();
+  } catch (err) {
+    console.error(err);
+    if (err instanceof Error) {
+      alert(err.message);
+    }
+  }
+});
+
+promoteVariationBtn.addEventListener("click", () => {
+  tree.promoteToMainline(tree.current);
+  renderChessboardFrame();
+});
+
+deleteVariationBtn.addEventListener("click", () => {
+  try {
+    browse(() => tree.deleteBranch(getVariationStart(tree.current)));
+    renderChessboardFrame();
+  } catch (err) {
+    console.error(err);
+    if (err instanceof Error) {
+      alert(err.message);
+    }
+  }
+});
+
+claimDrawBtn.addEventListener("click", () => {
+  try {
+    chess.claimDraw();
+  } catch (err) {
+    console.error(err);
+    if (err instanceof Error) {
+      alert(err.message);
+    }
+  }
+});
+
+drawOfferBtn.addEventListener("click", () => {
+  try {
+    if (chess.drawOffer === null) {
+      chess.offerDraw(chess.playingColor);
+    } else {
+      chess.acceptDraw(chess.drawOffer === "w" ? "b" : "w");
+    }
+
+    renderChessboardFrame();
+  } catch (err) {
+    console.error(err);
+    if (err instanceof Error) {
+      alert(err.message);
+    }
+  }
+});
+
+resignBtn.addEventListener("click", () => {
+  try {
+    chess.resign(chess.playingColor);
+  } catch (err) {
+    console.error(err);
+    if (err instanceof Error) {
+      alert(err.message);
+    }
+  }
+});
+
+exportPgnBtn.addEventListener("click", () => {
+  const date = new Date();
+
+  const pgn = chess.pgn({
+    headers: {
+      Site: location.href,
+      Date: [
+        date.getFullYear(),
+        String(date.getMonth() + 1).padStart(2, "0"),
+        String(date.getDate()).padStart(2, "0"),
+      ].join("."),
+    },
+  });
+
+  const url = URL.createObjectURL(
+    new Blob([pgn], { type: "application/x-chess-pgn" }),
+  );
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = "chesspirito.pgn";
+  link.click();
+
+  URL.revokeObjectURL(url);
+});
+
+importPgnBtn.addEventListener("click", () => {
+  importPgnFile.click();
+});
+
+importPgnFile.addEventListener("change", async () => {
+  const file = importPgnFile.files?.[0];
+
+  if (!file) return;
+
+  try {
+    const [game] = parsePgn(await file.text());
+
+    if (!game) {
+      throw new Error("Invalid PGN = no games found");
+    }
+
+    loadGameTree(GameTree.fromPgn(game));
+  } catch (err) {
+    console.error(err);
+    if (err instanceof Error) {
+      alert(err.message);
+    }
+  } finally {
+    importPgnFile.value = "";
+  }
+});
+
+loadBookBtn.addEventListener("click", () => {
+  loadBookFile.click();
+});
+
+loadBookFile.addEventListener("change", async () => {
+  const file = loadBookFile.files?.[0];
+
+  if (!file) return;
+
+  try {
+    book = new PolyglotBook(await file.arrayBuffer());
     renderChessboardFrame();
   } catch (err) {
     console.error(err);
     if (err instanceof Error) {
       alert(err.message);
     }
+  } finally {
+    loadBookFile.value = "";
   }
 });
 
+botMoveBtn.addEventListener("click", () => {
+  playBotMove();
+});
+
+botOpponentCheckbox.addEventListener("change", () => {
+  if (botOpponentCheckbox.checked) {
+    setOrientation(chess.playingColor);
+  }
+});
+
+analyzeBtn.addEventListener("click", () => {
+  analyzing = !analyzing;
+  analyzeBtn.textContent = analyzing ? "Stop analysis" : "Analyze";
+  updateAnalysis();
+});
+
+// Variants with a start position of their own, like Racing Kings, cannot
+// have their back rank shuffled.
+function renderChess960Availability() {
+  const available =
+    getVariant(variantSelect.value).startFen === STANDARD.startFen;
+
+  chess960Checkbox.disabled = !available;
+  chess960Index.disabled = !available;
+
+  if (!available) {
+    chess960Checkbox.checked = false;
+  }
+}
+
+interface Replay {
+  node: GameNode;
+  viewed: GameNode;
+  position: Chesspirito;
+}
+
+interface PieceDrag {
+  from: Position;
+  pointerId: number;
+  piece: HTMLImageElement;
+  ghost: HTMLImageElement;
+  wasSelected: boolean;
+  moved: boolean;
+}
+
+let orientation: Color = "w";
+let frameScheduled = false;
+let browsing = false;
+let replay: Replay | null = null;
 let selected: Position | null = null;
+let cursor: Position = { y: 6, x: 4 };
+let drag: PieceDrag | null = null;
+let botThinking = false;
+let choosingPromotion = false;
+let analyzing = false;
+let analysisGeneration = 0;
+let analysisSearch: Promise<SearchResult> | null = null;
+
+// Several events can fire for a single action (a move that checkmates, or a
+// jump across the game tree), so they share one frame rendered afterwards.
+function scheduleChessboardFrame() {
+  if (frameScheduled) return;
+
+  frameScheduled = true;
+  queueMicrotask(() => {
+    frameScheduled = false;
+    renderChessboardFrame();
+  });
+}
+
+function loadGameTree(nextTree: GameTree) {
+  tree = nextTree;
+  chess = tree.chess;
+
+  chess.on("move", scheduleChessboardFrame);
+  chess.on("undo", scheduleChessboardFrame);
+  chess.on("positionLoaded", scheduleChessboardFrame);
+  chess.on("gameOver", (gameOver) => {
+    scheduleChessboardFrame();
+
+    if (!browsing) {
+      setTimeout(() => alert(getGameOverMessage(gameOver)), 0);
+    }
+  });
+
+  renderChessboardFrame();
+}
+
+// Walking the game tree replays moves that were already played, which should
+// not announce their game over again.
+function browse(action: () => void) {
+  browsing = true;
+
+  try {
+    action();
+  } finally {
+    browsing = false;
+  }
+}
+
+function getSanMoves(game: Chesspirito): string[] {
+  return game.history.map((move) => move.san);
+}
+
+async function playBotMove() {
+  if (botThinking || chess.gameOver !== null) return;
+
+  if (botOpponentCheckbox.checked) {
+    setOrientation(chess.playingColor === "w" ? "b" : "w");
+  }
+
+  const fen = chess.fen();
+
+  botThinking = true;
+  botMoveBtn.disabled = true;
+
+  try {
+    let move = book?.pickMove(chess)?.move;
+
+    if (move === undefined) {
+      const timeMs =
+        chess.clock !== null
+          ? Math.max(
+              Math.min(
+                BOT_TIME_MS,
+                chess.clock.getRemaining(chess.playingColor) / 30,
+              ),
+              1,
+            )
+          : BOT_TIME_MS;
+
+      await botEngine.setPosition(
+        chess.startFen,
+        getSanMoves(chess),
+        chess.variant.name,
+      );
+      ({ move } = await botEngine.go({ timeMs }));
+    }
+
+    if (chess.fen() === fen) {
+      tree.move(move);
+    }
+  } catch (err) {
+    console.error(err);
+    if (err instanceof Error) {
+      alert(err.message);
+    }
+  } finally {
+    botThinking = false;
+    botMoveBtn.disabled = false;
+  }
+}
+
+function renderAnalysis(fen: string, { score, mate, depth, pv }: SearchResult) {
+  const line = new Chesspirito(fen, {
+    chess960: chess.chess960,
+    variant: chess.variant,
+  });
+
+  // The search does not know variant wins, so its line may run past one.
+  for (const move of pv) {
+    if (line.gameOver !== null) break;
+
+    line.move(move);
+  }
+
+  const sign = line.startFen.split(" ")[1] === "w" ? 1 : -1;
+  const evaluation =
+    mate !== null
+      ? "#" + sign * mate
+      : (score * sign > 0 ? "+" : "") + ((score * sign) / 100).toFixed(2);
+
+  analysisOutput.textContent =
+    "Depth " +
+    depth +
+    ": " +
+    evaluation +
+    " " +
+    line.history.map((move) => move.san).join(" ");
+}
+
+function formatClock(ms: number): string {
+  const remaining = Math.max(ms, 0);
+  const minutes = Math.floor(remaining / MINUTE);
+  const seconds = Math.floor(remaining / 1000) % 60;
+
+  if (remaining < 10000) {
+    return "0:0" + (remaining / 1000).toFixed(1);
+  }
+
+  return minutes + ":" + String(seconds).padStart(2, "0");
+}
+
+function renderClocks() {
+  const { clock } = chess;
+
+  for (const [color, element] of [
+    ["w", whiteClock],
+    ["b", blackClock],
+  ] as const) {
+    element.textContent =
+      clock !== null ? formatClock(clock.getRemaining(color)) : "";
+    element.classList.toggle("active", clock?.active === color);
+  }
+}
+
+function renderBookMoves() {
+  if (book === null) {
+    bookMovesOutput.textContent = "";
+    return;
+  }
+
+  const moves = book.getMoves(getViewedPosition());
+  const totalWeight = moves.reduce((total, { weight }) => total + weight, 0);
+
+  bookMovesOutput.textContent =
+    moves.length > 0
+      ? "Book: " +
+        moves
+          .map(
+            ({ san, weight }) =>
+              san +
+              " (" +
+              Math.round((weight / Math.max(totalWeight, 1)) * 100) +
+              "%)",
+          )
+          .join(", ")
+      : "Out of book";
+}
+
+async function updateAnalysis() {
+  const generation = ++analysisGeneration;
+
+  analysisEngine.stop();
+  await analysisSearch?.catch(() => null);
+
+  if (generation !== analysisGeneration) return;
+
+  analysisSearch = null;
+
+  const position = getViewedPosition();
+
+  if (!analyzing || position.gameOver !== null) {
+    analysisOutput.textContent = "";
+    return;
+  }
+
+  const fen = position.fen();
+
+  try {
+    await analysisEngine.setPosition(
+      position.startFen,
+      getSanMoves(position),
+      position.variant.name,
+    );
+
+    if (generation !== analysisGeneration) return;
+
+    analysisSearch = analysisEngine.go({ timeMs: ANALYSIS_TIME_MS }, (result) =>
+      renderAnalysis(fen, result),
+    );
+    await analysisSearch;
+  } catch (err) {
+    console.error(err);
+  }
+}
+
+function createPieceImage(type: ChessPieceImage, color: Color) {
+  const img = document.createElement("img");
+
+  img.src = import.meta.env.BASE_URL + CHESS_PIECE_IMAGES[type];
+  img.draggable = false;
+
+  if (color === "b") {
+    img.style.filter = "invert(100%)";
+  }
+
+  return img;
+}
+
+// Opens a column of choices over the promotion square, resolving with null
+// when the player cancels with the close button or Escape.
+function choosePromotion(
+  to: Position,
+  color: Color,
+): Promise<Promotion | null> {
+  return new Promise((resolve) => {
+    const finish = (promotion: Promotion | null) => {
+      document.removeEventListener("keydown", handleKeydown);
+      promotionPicker.hidden = true;
+      promotionPicker.innerHTML = "";
+      choosingPromotion = false;
+      resolve(promotion);
+    };
+
+    const handleKeydown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        finish(null);
+      }
+    };
+
+    promotionPicker.innerHTML = "";
+    const { y, x } = toScreenPosition(to);
+
+    promotionPicker.style.left = (x / 8) * 100 + "%";
+    promotionPicker.style.top = y === 0 ? "0" : "";
+    promotionPicker.style.bottom = y === 0 ? "" : "0";
+    promotionPicker.style.flexDirection = y === 0 ? "column" : "column-reverse";
+
+    for (const promotion of PROMOTION_CHOICES) {
+      const button = document.createElement("button");
+
+      button.title = promotion;
+      button.append(createPieceImage(promotion, color));
+      button.addEventListener("click", () => finish(promotion));
+      promotionPicker.append(button);
+    }
+
+    const cancelButton = document.createElement("button");
+
+    cancelButton.className = "cancel";
+    cancelButton.textContent = "✕";
+    cancelButton.title = "Cancel";
+    cancelButton.addEventListener("click", () => finish(null));
+    promotionPicker.append(cancelButton);
+
+    choosingPromotion = true;
+    promotionPicker.hidden = false;
+    document.addEventListener("keydown", handleKeydown);
+  });
+}
+
+async function playMove(from: Position, to: Position) {
+  try {
+    let promotion: Promotion | undefined;
+
+    if (chess.isPromotion(from, to)) {
+      const choice = await choosePromotion(to, chess.playingColor);
+
+      if (choice === null) return;
+
+      promotion = choice;
+    }
+
+    tree.move(from, to, promotion);
+    renderMoveFeedback(null);
+
+    if (chess.gameOver === null && botOpponentCheckbox.checked) {
+      playBotMove();
+    }
+  } catch (err) {
+    console.error(err);
+    if (err instanceof Error) {
+      renderMoveFeedback(err.message, to);
+    }
+  }
+}
+
+function canInteract(): boolean {
+  return (
+    replay === null &&
+    chess.gameOver === null &&
+    !botThinking &&
+    !choosingPromotion
+  );
+}
+
+function getViewedNode(): GameNode {
+  return replay?.viewed ?? tree.current;
+}
+
+// Follows the live line while the viewed move is on it, and the first
+// continuation of a variation otherwise.
+function getNextViewedNode(): GameNode {
+  const viewed = getViewedNode();
+  const path = tree.getPath(tree.current);
+  const index = path.indexOf(viewed);
+
+  if (index !== -1) {
+    return path[Math.min(index + 1, path.length - 1)];
+  }
+
+  return viewed.children[0] ?? viewed;
+}
+
+function getViewedPosition(): Chesspirito {
+  return replay?.position ?? chess;
+}
+
+// Viewing another move only swaps what is drawn; the live game is untouched
+// and its current move always brings the board back to it.
+function setReplayNode(node: GameNode) {
+  replay =
+    node === tree.current
+      ? null
+      : { node: tree.current, viewed: node, position: tree.positionAt(node) };
+
+  renderChessboardFrame();
+}
+
+function renderMoveFeedback(message: string | null, pos?: Position) {
+  moveFeedback.textContent = message ?? "";
+
+  if (pos !== undefined) {
+    const square = getChessboardSquare(pos);
+
+    // Restarts the animation when the same square is rejected twice in a row.
+    square.classList.remove("rejected");
+    void square.offsetWidth;
+    square.classList.add("rejected");
+  }
+}
+
+function selectSquare(pos: Position) {
+  selected = pos;
+  unrenderEffects();
+  renderCheck();
+  renderMoveFeedback(null);
+
+  getChessboardSquare(pos).style.boxShadow = getBoxShadowEffect("yellow");
+  renderLegalMoves(pos);
+
+  if (isSamePosition(pos, chess.getKingPosition(chess.playingColor))) {
+    renderCastlingMoves();
+  }
+}
+
+function clearSelection() {
+  selected = null;
+  unrenderEffects();
+  renderCheck();
+}
+
+// Shared by clicks and the keyboard: picks up a piece of the side to move,
+// drops the selected piece anywhere else, or deselects it when chosen again.
+function activateSquare(pos: Position) {
+  if (!canInteract()) return;
+
+  const piece = chess.getSquare(pos);
+
+  if (selected !== null && isSamePosition(selected, pos)) {
+    clearSelection();
+  } else if (
+    piece?.color === chess.playingColor &&
+    !(selected !== null && chess.isCastling(selected, pos))
+  ) {
+    selectSquare(pos);
+  } else if (selected !== null) {
+    const from = selected;
+
+    clearSelection();
+    playMove(from, pos);
+  }
+}
+
+function getEventPosition(target: EventTarget | null) {
+  const square =
+    target instanceof Element
+      ? target.closest<HTMLDivElement>(".chessboard > div")
+      : null;
+
+  if (square === null) return null;
+
+  return { y: Number(square.dataset.y), x: Number(square.dataset.x) };
+}
+
+function renderCursor() {
+  for (const square of chessboard.children as HTMLCollectionOf<HTMLDivElement>) {
+    square.classList.toggle(
+      "cursor",
+      Number(square.dataset.y) === cursor.y &&
+        Number(square.dataset.x) === cursor.x,
+    );
+  }
+}
+
+function moveDragGhost(ghost: HTMLImageElement, e: PointerEvent) {
+  ghost.style.left = e.clientX + "px";
+  ghost.style.top = e.clientY + "px";
+}
+
+function endDrag() {
+  if (drag === null) return;
+
+  drag.ghost.remove();
+  drag.piece.style.visibility = "";
+  drag = null;
+}
+
+// Maps board coordinates to rows and columns as drawn, and back again, since
+// the flip is its own inverse.
+function toScreenPosition({ y, x }: Position): Position {
+  return orientation === "w" ? { y, x } : { y: 7 - y, x: 7 - x };
+}
+
+function setOrientation(color: Color) {
+  if (orientation === color) return;
+
+  orientation = color;
+  renderChessboard();
+  renderCursor();
+  renderChessboardFrame();
+}
 
 function getChessboardSquare(pos: Position): HTMLDivElement {
   return chessboard.querySelector(`[data-y="${pos.y}"][data-x="${pos.x}"]`)!;
@@ -41,8 +890,64 @@ function getBoxShadowEffect(color: string): string {
   return "inset 0 0 13px 0 " + color;
 }
 
+function getGameOverMessage({ result, termination }: GameOver): string {
+  const reason = TERMINATION_REASONS[termination];
+
+  switch (result) {
+    case "1-0": {
+      return "White wins by " + reason;
+    }
+    case "0-1": {
+      return "Black wins by " + reason;
+    }
+    case "1/2-1/2": {
+      return "Draw by " + reason;
+    }
+  }
+}
+
 function renderGameOverStatus() {
-  gameoverStatus.textContent = chess.gameOver !== null ? chess.gameOver : "N/A";
+  gameoverStatus.textContent =
+    chess.gameOver !== null ? getGameOverMessage(chess.gameOver) : "N/A";
+
+  if (chess.variant === THREE_CHECK) {
+    gameoverStatus.textContent +=
+      " (checks: White " +
+      getCheckCount(chess, "w") +
+      ", Black " +
+      getCheckCount(chess, "b") +
+      ")";
+  }
+}
+
+function renderDrawControls() {
+  claimDrawBtn.disabled = !chess.canClaimDraw();
+  drawOfferBtn.textContent =
+    chess.drawOffer !== null ? "Accept draw" : "Offer draw";
+}
+
+// The first move of the variation holding the node, or the node itself when it
+// is on the mainline.
+function getVariationStart(node: GameNode): GameNode {
+  for (let curr = node; curr.parent !== null; curr = curr.parent) {
+    if (curr.parent.children[0] !== curr) {
+      return curr;
+    }
+  }
+
+  return node;
+}
+
+function renderReplayControls() {
+  const isMainline = tree.getMainline().includes(tree.current);
+
+  redoBtn.disabled = tree.current.children.length === 0;
+  promoteVariationBtn.disabled = isMainline;
+  deleteVariationBtn.disabled = tree.current.parent === null;
+  deleteVariationBtn.textContent = isMainline
+    ? "Delete from here"
+    : "Delete variation";
+  chessboard.classList.toggle("replaying", replay !== null);
 }
 
 function renderLegalMoves(from: Position) {
@@ -60,24 +965,29 @@ function renderLegalMoves(from: Position) {
   }
 }
 
+// Chess960 games castle by dropping the king onto its rook, since the
+// king's final square may be its own or an ordinary king move.
 function renderCastlingMoves() {
-  const { queenside, kingside } = chess.currCastlingRights;
   const boxShadow = getBoxShadowEffect("deepskyblue");
 
-  if (queenside !== null) {
-    const square = getChessboardSquare(queenside.target);
-    square.style.boxShadow = boxShadow;
-  }
+  for (const castlingRight of [
+    chess.currCastlingRights.queenside,
+    chess.currCastlingRights.kingside,
+  ]) {
+    if (castlingRight === null) continue;
 
-  if (kingside !== null) {
-    const square = getChessboardSquare(kingside.target);
+    const square = getChessboardSquare(
+      chess.chess960 ? castlingRight.rook.from : castlingRight.target,
+    );
     square.style.boxShadow = boxShadow;
   }
 }
 
 function renderCheck() {
-  if (chess.check !== null) {
-    const kingInCheckPos = chess.getKingPosition(chess.check);
+  const position = getViewedPosition();
+
+  if (position.check !== null) {
+    const kingInCheckPos = position.getKingPosition(position.check);
     const square = getChessboardSquare(kingInCheckPos);
 
     square.style.boxShadow = getBoxShadowEffect("cyan");
@@ -91,71 +1001,28 @@ function unrenderEffects() {
 }
 
 function renderChessboard() {
-  let colorState = false;
-  chess.board.forEach((rank, y) => {
-    rank.forEach((_, x) => {
+  chessboard.innerHTML = "";
+
+  for (let row = 0; row < 8; row++) {
+    for (let column = 0; column < 8; column++) {
+      const { y, x } = toScreenPosition({ y: row, x: column });
       const square = document.createElement("div");
 
-      square.style.background = colorState ? "#5a5a6a" : "#b1b1c1";
+      square.className = (y + x) % 2 === 0 ? "light" : "dark";
       square.dataset.y = String(y);
       square.dataset.x = String(x);
 
-      square.addEventListener("dragstart", () => {
-        if (chess.gameOver !== null) return;
-
-        selected = { y, x };
-        renderLegalMoves(selected);
-
-        const kingPos = chess.getKingPosition(chess.playingColor);
-
-        if (isSamePosition(selected, kingPos)) {
-          renderCastlingMoves();
-        }
-      });
-
-      square.addEventListener("dragend", () => {
-        selected = null;
-        unrenderEffects();
-        renderCheck();
-      });
-
-      square.addEventListener("dragover", (e) => {
-        e.preventDefault();
-      });
+      if (column === 0) {
+        square.dataset.rank = String(8 - y);
+      }
 
-      square.addEventListener("drop", (e) => {
-        const square = e.currentTarget as HTMLDivElement;
-
-        const targetPos = {
-          y: Number(square.dataset.y),
-          x: Number(square.dataset.x),
-        };
-
-        if (selected && !isSamePosition(selected, targetPos)) {
-          try {
-            chess.move(selected, targetPos);
-            renderChessboardFrame();
-
-            if (chess.gameOver !== null) {
-              alert(chess.gameOver);
-            }
-          } catch (err) {
-            console.error(err);
-            if (err instanceof Error) {
-              alert(err.message);
-            }
-          } finally {
-            selected = null;
-          }
-        }
-      });
+      if (row === 7) {
+        square.dataset.file = FILE_LABELS[x];
+      }
 
       chessboard.append(square);
-
-      colorState = !colorState;
-    });
-    colorState = !colorState;
-  });
+    }
+  }
 }
 
 function renderPieces() {
@@ -163,17 +1030,11 @@ function renderPieces() {
     square.innerHTML = "";
 
     const pos = { y: Number(square.dataset.y), x: Number(square.dataset.x) };
-    const piece = chess.getSquare(pos);
+    const piece = getViewedPosition().getSquare(pos);
 
     if (piece !== null) {
-      const img = document.createElement("img");
       const chessPieceType = piece.type.toUpperCase() as ChessPieceImage;
-
-      img.src = import.meta.env.BASE_URL + CHESS_PIECE_IMAGES[chessPieceType];
-
-      if (piece.color === "b") {
-        img.style.filter = "invert(100%)";
-      }
+      const img = createPieceImage(chessPieceType, piece.color);
 
       if (piece.type === "p") {
         img.style.transform = "rotateX(180deg)";
@@ -184,23 +1045,278 @@ function renderPieces() {
   }
 }
 
+function createScoreMove(
+  node: GameNode,
+  ply: number,
+  withNumber: boolean,
+  highlighted: GameNode,
+): HTMLSpanElement {
+  const startFenParts = chess.startFen.split(" ");
+  const blackStarts = startFenParts[1] === "b";
+  const moveNumber =
+    Number(startFenParts[5]) + Math.floor((ply + Number(blackStarts)) / 2);
+  const isWhiteMove = (ply + Number(blackStarts)) % 2 === 0;
+
+  const span = document.createElement("span");
+
+  span.className = "move";
+  span.dataset.node = String(node.id);
+  span.classList.toggle("current", node === highlighted);
+  span.textContent =
+    (isWhiteMove ? moveNumber + ". " : withNumber ? moveNumber + "... " : "") +
+    node.san +
+    node.nags.map((nag) => NAG_SYMBOLS[nag] ?? " $" + nag).join("");
+
+  return span;
+}
+
+function renderScoreComments(container: HTMLElement, comments: string[]) {
+  for (const comment of comments) {
+    const span = document.createElement("span");
+    span.className = "comment";
+    span.textContent = comment;
+    container.append(span);
+  }
+}
+
+// Renders a line from its first move along the main continuations, nesting the
+// alternatives to each move right after it.
+function renderScoreLine(
+  container: HTMLElement,
+  first: GameNode,
+  ply: number,
+  highlighted: GameNode,
+  withAlternatives: boolean,
+) {
+  let withNumber = true;
+
+  for (
+    let node: GameNode | undefined = first;
+    node !== undefined;
+    node = node.children[0], ply++
+  ) {
+    container.append(createScoreMove(node, ply, withNumber, highlighted));
+    renderScoreComments(container, node.comments);
+    withNumber = node.comments.length > 0;
+
+    const alternatives =
+      node !== first || withAlternatives ? node.parent!.children.slice(1) : [];
+
+    for (const alternative of alternatives) {
+      const variation = document.createElement("div");
+
+      variation.className = "variation";
+      renderScoreLine(variation, alternative, ply, highlighted, false);
+      container.append(variation);
+      withNumber = true;
+    }
+  }
+}
+
 function renderScore() {
   scoreboard.innerHTML = "";
 
-  for (const move of chess.history) {
-    const span = document.createElement("span");
-    span.textContent = move.lan;
-    scoreboard.appendChild(span);
+  const highlighted = getViewedNode();
+
+  renderScoreComments(scoreboard, tree.root.comments);
+
+  if (tree.root.children.length > 0) {
+    renderScoreLine(scoreboard, tree.root.children[0], 0, highlighted, true);
   }
 }
 
 function renderChessboardFrame() {
+  // Any change to the live game (a move, undo, new game...) ends the replay.
+  if (replay !== null && replay.node !== tree.current) {
+    replay = null;
+  }
+
+  endDrag();
+  selected = null;
   unrenderEffects();
   renderPieces();
   renderCheck();
   renderScore();
   renderGameOverStatus();
+  renderDrawControls();
+  renderReplayControls();
+  renderBookMoves();
+  renderClocks();
+
+  if (analyzing) {
+    updateAnalysis();
+  }
 }
 
+chessboard.addEventListener("pointerdown", (e) => {
+  const pos = getEventPosition(e.target);
+
+  if (e.button !== 0 || pos === null || drag !== null) return;
+
+  cursor = pos;
+  renderCursor();
+
+  if (!canInteract()) return;
+
+  const piece = getChessboardSquare(pos).querySelector("img");
+  const wasSelected = selected !== null && isSamePosition(selected, pos);
+
+  // Clicking the rook with the king selected castles, rather than picking
+  // the rook up.
+  if (
+    piece === null ||
+    chess.getSquare(pos)?.color !== chess.playingColor ||
+    (selected !== null && chess.isCastling(selected, pos))
+  ) {
+    activateSquare(pos);
+    return;
+  }
+
+  e.preventDefault();
+  chessboard.focus();
+  chessboard.setPointerCapture(e.pointerId);
+  selectSquare(pos);
+
+  const ghost = piece.cloneNode() as HTMLImageElement;
+  const { width, height } = piece.getBoundingClientRect();
+
+  ghost.className = "drag-ghost";
+  ghost.style.width = width + "px";
+  ghost.style.height = height + "px";
+  ghost.style.transform = "translate(-50%, -50%) " + piece.style.transform;
+  ghost.hidden = true;
+  moveDragGhost(ghost, e);
+  document.body.append(ghost);
+
+  drag = {
+    from: pos,
+    pointerId: e.pointerId,
+    piece,
+    ghost,
+    wasSelected,
+    moved: false,
+  };
+});
+
+chessboard.addEventListener("pointermove", (e) => {
+  if (drag === null || e.pointerId !== drag.pointerId) return;
+
+  if (!drag.moved) {
+    drag.moved = true;
+    drag.ghost.hidden = false;
+    drag.piece.style.visibility = "hidden";
+  }
+
+  moveDragGhost(drag.ghost, e);
+});
+
+chessboard.addEventListener("pointerup", (e) => {
+  if (drag === null || e.pointerId !== drag.pointerId) return;
+
+  const { from, wasSelected, moved } = drag;
+  const pos = getEventPosition(document.elementFromPoint(e.clientX, e.clientY));
+
+  endDrag();
+
+  if (!moved) {
+    // A plain click on an already selected piece puts it back down.
+    if (wasSelected) {
+      clearSelection();
+    }
+  } else if (pos !== null && !isSamePosition(pos, from)) {
+    cursor = pos;
+    renderCursor();
+    activateSquare(pos);
+  }
+});
+
+chessboard.addEventListener("pointercancel", (e) => {
+  if (drag !== null && e.pointerId === drag.pointerId) {
+    endDrag();
+  }
+});
+
+chessboard.addEventListener("keydown", (e) => {
+  const screenCursor = toScreenPosition(cursor);
+
+  switch (e.key) {
+    case "ArrowUp": {
+      screenCursor.y = Math.max(screenCursor.y - 1, 0);
+      break;
+    }
+    case "ArrowDown": {
+      screenCursor.y = Math.min(screenCursor.y + 1, 7);
+      break;
+    }
+    case "ArrowLeft": {
+      screenCursor.x = Math.max(screenCursor.x - 1, 0);
+      break;
+    }
+    case "ArrowRight": {
+      screenCursor.x = Math.min(screenCursor.x + 1, 7);
+      break;
+    }
+    case "Enter":
+    case " ": {
+      activateSquare(cursor);
+      break;
+    }
+    case "Escape": {
+      clearSelection();
+      break;
+    }
+    default: {
+      return;
+    }
+  }
+
+  e.preventDefault();
+  cursor = toScreenPosition(screenCursor);
+  renderCursor();
+});
+
+document.addEventListener("keydown", (e) => {
+  const target = e.target as Element;
+
+  if (
+    target === chessboard ||
+    target.closest("input, select, textarea") !== null
+  ) {
+    return;
+  }
+
+  switch (e.key) {
+    case "ArrowLeft": {
+      setReplayNode(getViewedNode().parent ?? tree.root);
+      break;
+    }
+    case "ArrowRight": {
+      setReplayNode(getNextViewedNode());
+      break;
+    }
+    case "Home": {
+      setReplayNode(tree.root);
+      break;
+    }
+    case "End": {
+      setReplayNode(tree.current);
+      break;
+    }
+    default: {
+      return;
+    }
+  }
+
+  e.preventDefault();
+});
+
+setInterval(() => {
+  if (!chess.checkTimeout()) {
+    renderClocks();
+  }
+}, CLOCK_REFRESH_MS);
+
 renderChessboard();
-renderChessboardFrame();
+renderCursor();
+renderChess960Availability();
+loadGameTree(new GameTree());
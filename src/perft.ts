@@ -0,0 +1,183 @@
+import { Chesspirito } from "./engine";
+
+interface PerftPosition {
+  name: string;
+  fen: string;
+  depth: number;
+  nodes: number;
+}
+
+const PERFT_POSITIONS: PerftPosition[] = [
+  {
+    name: "Start position",
+    fen: "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1",
+    depth: 5,
+    nodes: 4865609,
+  },
+  {
+    name: "Kiwipete",
+    fen: "r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1",
+    depth: 4,
+    nodes: 4085603,
+  },
+  {
+    name: "Position 3",
+    fen: "8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1",
+    depth: 5,
+    nodes: 674624,
+  },
+  {
+    name: "Position 4",
+    fen: "r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1",
+    depth: 4,
+    nodes: 422333,
+  },
+  {
+    name: "Position 5",
+    fen: "rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8",
+    depth: 4,
+    nodes: 2103487,
+  },
+  {
+    name: "Position 6",
+    fen: "r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10",
+    depth: 4,
+    nodes: 3894594,
+  },
+  {
+    name: "Illegal en passant (pin)",
+    fen: "3k4/3p4/8/K1P4r/8/8/8/8 b - - 0 1",
+    depth: 6,
+    nodes: 1134888,
+  },
+  {
+    name: "Illegal en passant (discovered check)",
+    fen: "8/8/4k3/8/2p5/8/B2P2K1/8 w - - 0 1",
+    depth: 6,
+    nodes: 1015133,
+  },
+  {
+    name: "En passant gives check",
+    fen: "8/8/1k6/2b5/2pP4/8/5K2/8 b - d3 0 1",
+    depth: 6,
+    nodes: 1440467,
+  },
+  {
+    name: "Short castling gives check",
+    fen: "5k2/8/8/8/8/8/8/4K2R w K - 0 1",
+    depth: 6,
+    nodes: 661072,
+  },
+  {
+    name: "Long castling gives check",
+    fen: "3k4/8/8/8/8/8/8/R3K3 w Q - 0 1",
+    depth: 6,
+    nodes: 803711,
+  },
+  {
+    name: "Castling rights",
+    fen: "r3k2r/1b4bq/8/8/8/8/7B/R3K2R w KQkq - 0 1",
+    depth: 4,
+    nodes: 1274206,
+  },
+  {
+    name: "Castling prevented",
+    fen: "r3k2r/8/3Q4/8/8/5q2/8/R3K2R b KQkq - 0 1",
+    depth: 4,
+    nodes: 1720476,
+  },
+  {
+    name: "Promotion out of check",
+    fen: "2K2r2/4P3/8/8/8/8/8/3k4 w - - 0 1",
+    depth: 6,
+    nodes: 3821001,
+  },
+  {
+    name: "Discovered check",
+    fen: "8/8/1P2K3/8/2n5/1q6/8/5k2 b - - 0 1",
+    depth: 5,
+    nodes: 1004658,
+  },
+  {
+    name: "Promotion gives check",
+    fen: "4k3/1P6/8/8/8/8/K7/8 w - - 0 1",
+    depth: 6,
+    nodes: 217342,
+  },
+  {
+    name: "Underpromotion gives check",
+    fen: "8/P1k5/K7/8/8/8/8/8 w - - 0 1",
+    depth: 6,
+    nodes: 92683,
+  },
+  {
+    name: "Self stalemate",
+    fen: "K1k5/8/P7/8/8/8/8/8 w - - 0 1",
+    depth: 6,
+    nodes: 2217,
+  },
+  {
+    name: "Stalemate and checkmate",
+    fen: "8/k1P5/8/1K6/8/8/8/8 w - - 0 1",
+    depth: 7,
+    nodes: 567584,
+  },
+  {
+    name: "Stalemate and checkmate 2",
+    fen: "8/8/2k5/5q2/5n2/8/5K2/8 b - - 0 1",
+    depth: 4,
+    nodes: 23527,
+  },
+  {
+    name: "Chess960 position 1",
+    fen: "bqnb1rkr/pp3ppp/3ppn2/2p5/5P2/P2P4/NPP1P1PP/BQ1BNRKR w HFhf - 2 9",
+    depth: 4,
+    nodes: 326672,
+  },
+  {
+    name: "Chess960 position 2",
+    fen: "2nnrbkr/p1qppppp/8/1ppb4/6PP/3PP3/PPP2P2/BQNNRBKR w HEhe - 1 9",
+    depth: 4,
+    nodes: 667366,
+  },
+  {
+    name: "Chess960 position 3",
+    fen: "b1q1rrkb/pppppppp/3nn3/8/P7/1PPP4/4PPPP/BQNNRKRB w GE - 1 9",
+    depth: 4,
+    nodes: 273318,
+  },
+];
+
+function runPerftSuite(positions = PERFT_POSITIONS): boolean {
+  let passed = true;
+
+  for (const { name, fen, depth, nodes } of positions) {
+    const start = Date.now();
+    const result = new Chesspirito(fen).perft(depth);
+    const elapsed = Date.now() - start;
+
+    if (result !== nodes) {
+      passed = false;
+    }
+
+    console.log(
+      (result === nodes ? "ok  " : "FAIL") +
+        " " +
+        name +
+        " (depth " +
+        depth +
+        "): " +
+        result +
+        (result === nodes ? "" : ", expected " + nodes) +
+        " in " +
+        elapsed +
+        "ms",
+    );
+  }
+
+  return passed;
+}
+
+if (!runPerftSuite()) {
+  throw new Error("Perft suite failed");
+}
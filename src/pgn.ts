@@ -0,0 +1,387 @@
+import { Chesspirito, GameResult } from "./engine";
+import { STANDARD, VARIANTS } from "./variants";
+
+type PgnTokenType =
+  | "tag"
+  | "comment"
+  | "nag"
+  | "open"
+  | "close"
+  | "result"
+  | "moveNumber"
+  | "san";
+
+interface PgnToken {
+  type: PgnTokenType;
+  value: string;
+  name?: string;
+  line: number;
+  column: number;
+}
+
+export interface PgnMove {
+  san: string;
+  nags: number[];
+  comments: string[];
+  variations: PgnLine[];
+}
+
+export interface PgnLine {
+  comments: string[];
+  moves: PgnMove[];
+}
+
+export interface PgnGame {
+  headers: Record<string, string>;
+  mainline: PgnLine;
+  result: string;
+  chess: Chesspirito;
+}
+
+const SUFFIX_ANNOTATIONS: Record<string, number> = {
+  "!": 1,
+  "?": 2,
+  "!!": 3,
+  "??": 4,
+  "!?": 5,
+  "?!": 6,
+};
+
+const TAG_PAIR_REGEX = /\[\s*([A-Za-z0-9_]+)\s+"((?:[^"\\\n]|\\.)*)"\s*\]/y;
+const RESULT_REGEX = /(1-0|0-1|1\/2-1\/2|\*)/y;
+const MOVE_NUMBER_REGEX = /\d+\.*/y;
+const NAG_REGEX = /\$(\d+)/y;
+const SAN_REGEX = /(--|0-0(?:-0)?[+#]?|[A-Za-z][A-Za-z0-9+#=:-]*)([!?]{1,2})?/y;
+const SUFFIX_ANNOTATION_REGEX = /[!?]{1,2}/y;
+
+function getPgnError(
+  message: string,
+  { line, column }: { line: number; column: number },
+) {
+  return new Error(
+    "Invalid PGN = " + message + " at line " + line + ", column " + column,
+  );
+}
+
+function tokenizePgn(pgn: string): PgnToken[] {
+  const tokens: PgnToken[] = [];
+
+  let i = 0;
+  let line = 1;
+  let column = 1;
+
+  const advance = (length: number) => {
+    for (let j = 0; j < length; j++) {
+      if (pgn[i] === "\n") {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+
+      i++;
+    }
+  };
+
+  const matchAt = (regex: RegExp) => {
+    regex.lastIndex = i;
+    return regex.exec(pgn);
+  };
+
+  while (i < pgn.length) {
+    const char = pgn[i];
+    const start = { line, column };
+
+    if (/\s/.test(char)) {
+      advance(1);
+      continue;
+    }
+
+    if (char === "%" && column === 1) {
+      while (i < pgn.length && pgn[i] !== "\n") advance(1);
+      continue;
+    }
+
+    if (char === ";") {
+      const end = pgn.indexOf("\n", i);
+      const text = pgn.slice(i + 1, end === -1 ? pgn.length : end);
+
+      tokens.push({ type: "comment", value: text.trim(), ...start });
+      advance(text.length + 1);
+      continue;
+    }
+
+    if (char === "{") {
+      const end = pgn.indexOf("}", i);
+
+      if (end === -1) {
+        throw getPgnError("unterminated comment", start);
+      }
+
+      const text = pgn.slice(i + 1, end);
+
+      tokens.push({ type: "comment", value: text.trim(), ...start });
+      advance(end - i + 1);
+      continue;
+    }
+
+    if (char === "[") {
+      const match = matchAt(TAG_PAIR_REGEX);
+
+      if (match === null) {
+        throw getPgnError("malformed tag pair", start);
+      }
+
+      tokens.push({
+        type: "tag",
+        name: match[1],
+        value: match[2].replace(/\\(.)/g, "$1"),
+        ...start,
+      });
+      advance(match[0].length);
+      continue;
+    }
+
+    if (char === "(" || char === ")") {
+      tokens.push({
+        type: char === "(" ? "open" : "close",
+        value: char,
+        ...start,
+      });
+      advance(1);
+      continue;
+    }
+
+    const nag = matchAt(NAG_REGEX);
+
+    if (nag !== null) {
+      tokens.push({ type: "nag", value: nag[1], ...start });
+      advance(nag[0].length);
+      continue;
+    }
+
+    const suffixAnnotation = matchAt(SUFFIX_ANNOTATION_REGEX);
+
+    if (suffixAnnotation !== null) {
+      tokens.push({
+        type: "nag",
+        value: String(SUFFIX_ANNOTATIONS[suffixAnnotation[0]]),
+        ...start,
+      });
+      advance(suffixAnnotation[0].length);
+      continue;
+    }
+
+    const result = matchAt(RESULT_REGEX);
+
+    if (result !== null) {
+      tokens.push({ type: "result", value: result[0], ...start });
+      advance(result[0].length);
+      continue;
+    }
+
+    const san = matchAt(SAN_REGEX);
+
+    if (san !== null) {
+      tokens.push({ type: "san", value: san[1], ...start });
+
+      if (san[2] !== undefined) {
+        tokens.push({
+          type: "nag",
+          value: String(SUFFIX_ANNOTATIONS[san[2]]),
+          line,
+          column: column + san[1].length,
+        });
+      }
+
+      advance(san[0].length);
+      continue;
+    }
+
+    const moveNumber = matchAt(MOVE_NUMBER_REGEX);
+
+    if (moveNumber !== null) {
+      tokens.push({ type: "moveNumber", value: moveNumber[0], ...start });
+      advance(moveNumber[0].length);
+      continue;
+    }
+
+    throw getPgnError("unexpected character " + char, start);
+  }
+
+  return tokens;
+}
+
+class PgnParser {
+  tokens: PgnToken[];
+  index: number;
+
+  constructor(pgn: string) {
+    this.tokens = tokenizePgn(pgn);
+    this.index = 0;
+  }
+
+  private peek(): PgnToken | undefined {
+    return this.tokens[this.index];
+  }
+
+  parseGames(): PgnGame[] {
+    const games: PgnGame[] = [];
+
+    while (this.peek() !== undefined) {
+      games.push(this.parseGame());
+    }
+
+    return games;
+  }
+
+  private parseGame(): PgnGame {
+    const headers: Record<string, string> = {};
+    const firstToken = this.peek()!;
+
+    for (let token = this.peek(); token?.type === "tag"; token = this.peek()) {
+      headers[token.name!] = token.value;
+      this.index++;
+    }
+
+    if (headers.SetUp === "1" && headers.FEN === undefined) {
+      throw getPgnError("SetUp tag without FEN tag", firstToken);
+    }
+
+    const variantTag = headers.Variant ?? "";
+
+    // Unknown variant tags fall back to standard rules, as most readers do.
+    const variant =
+      VARIANTS.find(
+        ({ name }) => name.toLowerCase() === variantTag.toLowerCase(),
+      ) ?? STANDARD;
+
+    let chess: Chesspirito;
+
+    try {
+      chess = new Chesspirito(headers.FEN, {
+        chess960: /^(chess ?960|fischerandom)$/i.test(variantTag),
+        variant,
+      });
+    } catch (err) {
+      throw getPgnError((err as Error).message, firstToken);
+    }
+
+    const mainline = this.parseLine(chess, null);
+    let result = "*";
+
+    const token = this.peek();
+
+    if (token?.type === "result") {
+      result = token.value;
+      this.index++;
+    }
+
+    // A game the board has not decided ended off it, by a resignation or an
+    // agreed draw.
+    if (result !== "*" && chess.gameOver === null) {
+      chess.setResult(
+        result as GameResult,
+        result === "1/2-1/2" ? "agreement" : "resignation",
+      );
+    }
+
+    return { headers, mainline, result, chess };
+  }
+
+  private parseLine(chess: Chesspirito, opening: PgnToken | null): PgnLine {
+    const line: PgnLine = { comments: [], moves: [] };
+
+    while (true) {
+      const token = this.peek();
+
+      if (token === undefined) {
+        if (opening !== null) {
+          throw getPgnError("unterminated variation", opening);
+        }
+
+        return line;
+      }
+
+      const lastMove = line.moves[line.moves.length - 1];
+
+      switch (token.type) {
+        case "tag":
+        case "result": {
+          if (opening !== null) {
+            throw getPgnError("unterminated variation", opening);
+          }
+
+          return line;
+        }
+        case "close": {
+          if (opening === null) {
+            throw getPgnError("unexpected )", token);
+          }
+
+          this.index++;
+          return line;
+        }
+        case "comment": {
+          if (lastMove === undefined) {
+            line.comments.push(token.value);
+          } else {
+            lastMove.comments.push(token.value);
+          }
+
+          break;
+        }
+        case "nag": {
+          if (lastMove === undefined) {
+            throw getPgnError("annotation without move", token);
+          }
+
+          lastMove.nags.push(Number(token.value));
+          break;
+        }
+        case "moveNumber": {
+          break;
+        }
+        case "open": {
+          if (lastMove === undefined) {
+            throw getPgnError("variation without move", token);
+          }
+
+          // Replayed rather than set up from a FEN, so the variation keeps the
+          // game's repetition history and variant state such as check counts.
+          this.index++;
+          lastMove.variations.push(
+            this.parseLine(chess.positionAt(chess.history.length - 1), token),
+          );
+          continue;
+        }
+        case "san": {
+          if (token.value === "--") {
+            throw getPgnError("null moves are not supported", token);
+          }
+
+          try {
+            chess.move(token.value);
+          } catch (err) {
+            const message = (err as Error).message;
+            throw getPgnError(message.replace("Invalid move = ", ""), token);
+          }
+
+          line.moves.push({
+            san: chess.history[chess.history.length - 1].san,
+            nags: [],
+            comments: [],
+            variations: [],
+          });
+          break;
+        }
+      }
+
+      this.index++;
+    }
+  }
+}
+
+export function parsePgn(pgn: string): PgnGame[] {
+  return new PgnParser(pgn).parseGames();
+}
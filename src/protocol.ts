@@ -0,0 +1,18 @@
+import { SearchOptions, SearchResult } from "./search";
+
+export type EngineRequest =
+  | {
+      type: "position";
+      id: number;
+      fen?: string;
+      moves: string[];
+      variant?: string;
+    }
+  | { type: "go"; id: number; options: SearchOptions }
+  | { type: "stop" };
+
+export type EngineResponse =
+  | { type: "ready"; id: number }
+  | { type: "info"; id: number; result: SearchResult }
+  | { type: "bestmove"; id: number; result: SearchResult }
+  | { type: "error"; id: number; message: string };
@@ -0,0 +1,498 @@
+import {
+  BLACK,
+  Board0x88,
+  CAPTURE,
+  EMPTY,
+  EN_PASSANT,
+  KING,
+  PAWN,
+  QUEEN,
+  WHITE,
+  getMoveFlag,
+  getMoveFrom,
+  getMovePromotion,
+  getMoveTo,
+} from "./board0x88";
+import {
+  EXACT,
+  LOWER_BOUND,
+  TranspositionTable,
+  UPPER_BOUND,
+} from "./transposition";
+
+export interface SearchOptions {
+  depth?: number;
+  timeMs?: number;
+}
+
+export interface SearchResult {
+  move: string;
+  pv: string[];
+  score: number;
+  mate: number | null;
+  depth: number;
+  nodes: number;
+}
+
+const MATE_SCORE = 100000;
+const INFINITE_SCORE = MATE_SCORE + 1;
+export const MAX_PLY = 64;
+const DEFAULT_DEPTH = 4;
+
+const PIECE_VALUES = [0, 100, 320, 330, 500, 900, 0];
+
+// Piece-square tables from white's point of view, rank 8 first.
+const PAWN_TABLE = [
+  0, 0, 0, 0, 0, 0, 0, 0, 50, 50, 50, 50, 50, 50, 50, 50, 10, 10, 20, 30, 30,
+  20, 10, 10, 5, 5, 10, 25, 25, 10, 5, 5, 0, 0, 0, 20, 20, 0, 0, 0, 5, -5, -10,
+  0, 0, -10, -5, 5, 5, 10, 10, -20, -20, 10, 10, 5, 0, 0, 0, 0, 0, 0, 0, 0,
+];
+
+const KNIGHT_TABLE = [
+  -50, -40, -30, -30, -30, -30, -40, -50, -40, -20, 0, 0, 0, 0, -20, -40, -30,
+  0, 10, 15, 15, 10, 0, -30, -30, 5, 15, 20, 20, 15, 5, -30, -30, 0, 15, 20, 20,
+  15, 0, -30, -30, 5, 10, 15, 15, 10, 5, -30, -40, -20, 0, 5, 5, 0, -20, -40,
+  -50, -40, -30, -30, -30, -30, -40, -50,
+];
+
+const BISHOP_TABLE = [
+  -20, -10, -10, -10, -10, -10, -10, -20, -10, 0, 0, 0, 0, 0, 0, -10, -10, 0, 5,
+  10, 10, 5, 0, -10, -10, 5, 5, 10, 10, 5, 5, -10, -10, 0, 10, 10, 10, 10, 0,
+  -10, -10, 10, 10, 10, 10, 10, 10, -10, -10, 5, 0, 0, 0, 0, 5, -10, -20, -10,
+  -10, -10, -10, -10, -10, -20,
+];
+
+const ROOK_TABLE = [
+  0, 0, 0, 0, 0, 0, 0, 0, 5, 10, 10, 10, 10, 10, 10, 5, -5, 0, 0, 0, 0, 0, 0,
+  -5, -5, 0, 0, 0, 0, 0, 0, -5, -5, 0, 0, 0, 0, 0, 0, -5, -5, 0, 0, 0, 0, 0, 0,
+  -5, -5, 0, 0, 0, 0, 0, 0, -5, 0, 0, 0, 5, 5, 0, 0, 0,
+];
+
+const QUEEN_TABLE = [
+  -20, -10, -10, -5, -5, -10, -10, -20, -10, 0, 0, 0, 0, 0, 0, -10, -10, 0, 5,
+  5, 5, 5, 0, -10, -5, 0, 5, 5, 5, 5, 0, -5, 0, 0, 5, 5, 5, 5, 0, -5, -10, 5, 5,
+  5, 5, 5, 0, -10, -10, 0, 5, 0, 0, 0, 0, -10, -20, -10, -10, -5, -5, -10, -10,
+  -20,
+];
+
+const KING_MIDDLEGAME_TABLE = [
+  -30, -40, -40, -50, -50, -40, -40, -30, -30, -40, -40, -50, -50, -40, -40,
+  -30, -30, -40, -40, -50, -50, -40, -40, -30, -30, -40, -40, -50, -50, -40,
+  -40, -30, -20, -30, -30, -40, -40, -30, -30, -20, -10, -20, -20, -20, -20,
+  -20, -20, -10, 20, 20, 0, 0, 0, 0, 20, 20, 20, 30, 10, 0, 0, 10, 30, 20,
+];
+
+const KING_ENDGAME_TABLE = [
+  -50, -40, -30, -20, -20, -30, -40, -50, -30, -20, -10, 0, 0, -10, -20, -30,
+  -30, -10, 20, 30, 30, 20, -10, -30, -30, -10, 30, 40, 40, 30, -10, -30, -30,
+  -10, 30, 40, 40, 30, -10, -30, -30, -10, 20, 30, 30, 20, -10, -30, -30, -30,
+  0, 0, 0, 0, -30, -30, -50, -30, -30, -30, -30, -30, -30, -50,
+];
+
+const PIECE_SQUARE_TABLES = [
+  [],
+  PAWN_TABLE,
+  KNIGHT_TABLE,
+  BISHOP_TABLE,
+  ROOK_TABLE,
+  QUEEN_TABLE,
+];
+
+function getTableIndex(square: number, color: number): number {
+  const rank = square >> 4;
+
+  return (color === WHITE ? rank : 7 - rank) * 8 + (square & 7);
+}
+
+function evaluate(board: Board0x88): number {
+  let score = 0;
+  let queens = 0;
+
+  for (const color of [WHITE, BLACK]) {
+    const sign = color === WHITE ? 1 : -1;
+
+    for (const square of board.pieceLists[color]) {
+      const type = board.squares[square] & 7;
+
+      if (type === KING) continue;
+
+      if (type === QUEEN) {
+        queens++;
+      }
+
+      score +=
+        sign *
+        (PIECE_VALUES[type] +
+          PIECE_SQUARE_TABLES[type][getTableIndex(square, color)]);
+    }
+  }
+
+  const kingTable = queens === 0 ? KING_ENDGAME_TABLE : KING_MIDDLEGAME_TABLE;
+
+  score += kingTable[getTableIndex(board.kingSquares[WHITE], WHITE)];
+  score -= kingTable[getTableIndex(board.kingSquares[BLACK], BLACK)];
+
+  return board.turn === WHITE ? score : -score;
+}
+
+function isCapture(move: number): boolean {
+  const flag = getMoveFlag(move);
+
+  return flag === CAPTURE || flag === EN_PASSANT;
+}
+
+function getMateDistance(score: number): number | null {
+  if (Math.abs(score) < MATE_SCORE - MAX_PLY) {
+    return null;
+  }
+
+  return score > 0
+    ? Math.ceil((MATE_SCORE - score) / 2)
+    : -Math.ceil((MATE_SCORE + score) / 2);
+}
+
+// Mate scores are stored relative to the node instead of the root so they
+// stay correct when the position is reached again at a different ply.
+function toTableScore(score: number, ply: number): number {
+  if (score >= MATE_SCORE - MAX_PLY) return score + ply;
+  if (score <= -MATE_SCORE + MAX_PLY) return score - ply;
+  return score;
+}
+
+function fromTableScore(score: number, ply: number): number {
+  if (score >= MATE_SCORE - MAX_PLY) return score - ply;
+  if (score <= -MATE_SCORE + MAX_PLY) return score + ply;
+  return score;
+}
+
+// The low 53 bits of the hash, which still fit in a plain number.
+function getRepetitionKey(hash: bigint): number {
+  return Number(BigInt.asUintN(53, hash));
+}
+
+class Searcher {
+  board: Board0x88;
+  table: TranspositionTable;
+  deadline: number;
+  shouldStop: () => boolean;
+  nodes: number;
+  stopped: boolean;
+  rootDepth: number;
+  killers: number[][];
+  path: number[];
+
+  constructor(
+    board: Board0x88,
+    table: TranspositionTable,
+    history: bigint[],
+    deadline: number,
+    shouldStop: () => boolean,
+  ) {
+    this.board = board;
+    this.table = table;
+    this.deadline = deadline;
+    this.shouldStop = shouldStop;
+    this.nodes = 0;
+    this.stopped = false;
+    this.rootDepth = 0;
+    this.killers = Array.from({ length: MAX_PLY + 1 }, () => [0, 0]);
+    this.path = (history.length > 0 ? history : [board.hash()]).map(
+      getRepetitionKey,
+    );
+  }
+
+  private getPathKey(): number {
+    return (
+      (this.board.hashHigh & 0x1fffff) * 0x100000000 +
+      (this.board.hashLow >>> 0)
+    );
+  }
+
+  private isRepetition(): boolean {
+    const key = this.path[this.path.length - 1];
+    const start = Math.max(this.path.length - 1 - this.board.halfmoveClock, 0);
+
+    for (let i = this.path.length - 3; i >= start; i -= 2) {
+      if (this.path[i] === key) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  // Also polls for an outside stop, so a front end running the search on
+  // another thread gets its move back without waiting out the iteration.
+  private isTimeUp(): boolean {
+    if (
+      this.rootDepth > 1 &&
+      (this.nodes & 1023) === 0 &&
+      (Date.now() >= this.deadline || this.shouldStop())
+    ) {
+      this.stopped = true;
+    }
+
+    return this.stopped;
+  }
+
+  private getMoveScore(move: number, ply: number, hashMove: number): number {
+    if (move === hashMove) {
+      return 1000000;
+    }
+
+    const promotion = getMovePromotion(move);
+
+    if (isCapture(move)) {
+      const victim =
+        getMoveFlag(move) === EN_PASSANT
+          ? PAWN
+          : this.board.squares[getMoveTo(move)] & 7;
+      const attacker = this.board.squares[getMoveFrom(move)] & 7;
+
+      return 100000 + PIECE_VALUES[victim] * 10 - attacker + promotion;
+    }
+
+    if (promotion !== EMPTY) {
+      return 90000 + PIECE_VALUES[promotion];
+    }
+
+    if (move === this.killers[ply][0]) {
+      return 80000;
+    }
+
+    if (move === this.killers[ply][1]) {
+      return 70000;
+    }
+
+    return 0;
+  }
+
+  private orderMoves(moves: number[], ply: number, hashMove = 0): number[] {
+    const scores = new Map(
+      moves.map((move) => [move, this.getMoveScore(move, ply, hashMove)]),
+    );
+
+    return moves.sort((a, b) => scores.get(b)! - scores.get(a)!);
+  }
+
+  private storeKiller(move: number, ply: number) {
+    const killers = this.killers[ply];
+
+    if (killers[0] !== move) {
+      killers[1] = killers[0];
+      killers[0] = move;
+    }
+  }
+
+  search(
+    depth: number,
+    alpha: number,
+    beta: number,
+    ply: number,
+    pv: number[],
+  ): number {
+    pv.length = 0;
+
+    if (ply > 0 && (this.board.halfmoveClock >= 100 || this.isRepetition())) {
+      return 0;
+    }
+
+    if (ply >= MAX_PLY) {
+      return evaluate(this.board);
+    }
+
+    const inCheck = this.board.inCheck();
+
+    if (inCheck) {
+      depth++;
+    }
+
+    if (depth <= 0) {
+      return this.quiescence(alpha, beta, ply);
+    }
+
+    this.nodes++;
+
+    if (this.isTimeUp()) {
+      return 0;
+    }
+
+    const { hashLow, hashHigh } = this.board;
+    const entry = this.table.probe(hashLow, hashHigh);
+
+    if (entry !== null && ply > 0 && entry.depth >= depth) {
+      const score = fromTableScore(entry.score, ply);
+
+      if (entry.flag === EXACT) {
+        return score;
+      }
+
+      if (entry.flag === LOWER_BOUND && score >= beta) {
+        return beta;
+      }
+
+      if (entry.flag === UPPER_BOUND && score <= alpha) {
+        return alpha;
+      }
+    }
+
+    const moves = this.board.generateLegalMoves();
+
+    if (moves.length === 0) {
+      return inCheck ? -MATE_SCORE + ply : 0;
+    }
+
+    const originalAlpha = alpha;
+    const childPv: number[] = [];
+
+    for (const move of this.orderMoves(moves, ply, entry?.move)) {
+      this.board.makeMove(move);
+      this.path.push(this.getPathKey());
+      const score = -this.search(depth - 1, -beta, -alpha, ply + 1, childPv);
+      this.path.pop();
+      this.board.unmakeMove(move);
+
+      if (this.stopped) {
+        return 0;
+      }
+
+      if (score > alpha) {
+        alpha = score;
+        pv.length = 0;
+        pv.push(move, ...childPv);
+
+        if (score >= beta) {
+          if (!isCapture(move)) {
+            this.storeKiller(move, ply);
+          }
+
+          this.table.store(hashLow, hashHigh, {
+            depth,
+            score: toTableScore(beta, ply),
+            flag: LOWER_BOUND,
+            move,
+          });
+
+          return beta;
+        }
+      }
+    }
+
+    this.table.store(hashLow, hashHigh, {
+      depth,
+      score: toTableScore(alpha, ply),
+      flag: alpha > originalAlpha ? EXACT : UPPER_BOUND,
+      move: alpha > originalAlpha ? pv[0] : 0,
+    });
+
+    return alpha;
+  }
+
+  private quiescence(alpha: number, beta: number, ply: number): number {
+    this.nodes++;
+
+    if (this.isTimeUp()) {
+      return 0;
+    }
+
+    const standPat = evaluate(this.board);
+
+    if (ply >= MAX_PLY) {
+      return standPat;
+    }
+
+    if (standPat >= beta) {
+      return beta;
+    }
+
+    if (standPat > alpha) {
+      alpha = standPat;
+    }
+
+    const moves = this.board
+      .generateLegalMoves()
+      .filter((move) => isCapture(move) || getMovePromotion(move) === QUEEN);
+
+    for (const move of this.orderMoves(moves, ply)) {
+      this.board.makeMove(move);
+      const score = -this.quiescence(-beta, -alpha, ply + 1);
+      this.board.unmakeMove(move);
+
+      if (this.stopped) {
+        return 0;
+      }
+
+      if (score > alpha) {
+        if (score >= beta) {
+          return beta;
+        }
+
+        alpha = score;
+      }
+    }
+
+    return alpha;
+  }
+}
+
+export function* iterativeDeepening(
+  board: Board0x88,
+  { depth, timeMs }: SearchOptions,
+  table = new TranspositionTable(),
+  history: bigint[] = [],
+  shouldStop = () => false,
+): Generator<SearchResult, void> {
+  const maxDepth = depth ?? (timeMs !== undefined ? MAX_PLY : DEFAULT_DEPTH);
+  const deadline = timeMs !== undefined ? Date.now() + timeMs : Infinity;
+  const searcher = new Searcher(board, table, history, deadline, shouldStop);
+
+  table.newSearch();
+
+  for (let d = 1; d <= Math.min(maxDepth, MAX_PLY); d++) {
+    const pv: number[] = [];
+
+    searcher.rootDepth = d;
+
+    const score = searcher.search(d, -INFINITE_SCORE, INFINITE_SCORE, 0, pv);
+
+    if (searcher.stopped) return;
+
+    const mate = getMateDistance(score);
+
+    yield {
+      move: board.toUci(pv[0]),
+      pv: pv.map((move) => board.toUci(move)),
+      score,
+      mate,
+      depth: d,
+      nodes: searcher.nodes,
+    };
+
+    if (mate !== null) return;
+  }
+}
+
+// Reports every finished depth as it goes, for front ends printing progress.
+export function search(
+  board: Board0x88,
+  options: SearchOptions,
+  table?: TranspositionTable,
+  history?: bigint[],
+  onIteration?: (result: SearchResult) => void,
+  shouldStop?: () => boolean,
+): SearchResult {
+  let result: SearchResult | null = null;
+
+  for (const iteration of iterativeDeepening(
+    board,
+    options,
+    table,
+    history,
+    shouldStop,
+  )) {
+    result = iteration;
+    onIteration?.(iteration);
+  }
+
+  return result!;
+}
@@ -0,0 +1,94 @@
+export const EXACT = 0;
+export const LOWER_BOUND = 1;
+export const UPPER_BOUND = 2;
+
+export interface TranspositionEntry {
+  depth: number;
+  score: number;
+  flag: number;
+  move: number;
+}
+
+const DEFAULT_SIZE = 1 << 18;
+
+export class TranspositionTable {
+  private mask: number;
+  private keysLow: Int32Array;
+  private keysHigh: Int32Array;
+  private depths: Int8Array;
+  private flags: Uint8Array;
+  private ages: Uint8Array;
+  private scores: Int32Array;
+  private moves: Int32Array;
+  private age: number;
+
+  constructor(size = DEFAULT_SIZE) {
+    if (!Number.isInteger(Math.log2(size))) {
+      throw new Error("Invalid transposition table size = " + size);
+    }
+
+    this.mask = size - 1;
+    this.keysLow = new Int32Array(size);
+    this.keysHigh = new Int32Array(size);
+    this.depths = new Int8Array(size).fill(-1);
+    this.flags = new Uint8Array(size);
+    this.ages = new Uint8Array(size);
+    this.scores = new Int32Array(size);
+    this.moves = new Int32Array(size);
+    this.age = 0;
+  }
+
+  newSearch() {
+    this.age = (this.age + 1) & 0xff;
+  }
+
+  clear() {
+    this.depths.fill(-1);
+    this.age = 0;
+  }
+
+  probe(hashLow: number, hashHigh: number): TranspositionEntry | null {
+    const index = hashLow & this.mask;
+
+    if (
+      this.depths[index] === -1 ||
+      this.keysLow[index] !== hashLow ||
+      this.keysHigh[index] !== hashHigh
+    ) {
+      return null;
+    }
+
+    return {
+      depth: this.depths[index],
+      score: this.scores[index],
+      flag: this.flags[index],
+      move: this.moves[index],
+    };
+  }
+
+  // Depth-preferred: a slot is only overwritten by an equal or deeper search
+  // of the same generation, while entries from older searches always give way.
+  store(
+    hashLow: number,
+    hashHigh: number,
+    { depth, score, flag, move }: TranspositionEntry,
+  ) {
+    const index = hashLow & this.mask;
+
+    if (
+      this.depths[index] !== -1 &&
+      this.ages[index] === this.age &&
+      this.depths[index] > depth
+    ) {
+      return;
+    }
+
+    this.keysLow[index] = hashLow;
+    this.keysHigh[index] = hashHigh;
+    this.depths[index] = Math.min(depth, 127);
+    this.flags[index] = flag;
+    this.ages[index] = this.age;
+    this.scores[index] = score;
+    this.moves[index] = move;
+  }
+}
@@ -0,0 +1,277 @@
+import { createInterface } from "node:readline";
+import {
+  Worker,
+  isMainThread,
+  parentPort,
+  workerData,
+} from "node:worker_threads";
+import { Chesspirito } from "./engine";
+import { MAX_PLY, SearchOptions, SearchResult } from "./search";
+
+interface GoParameters {
+  depth?: number;
+  movetime?: number;
+  wtime?: number;
+  btime?: number;
+  winc?: number;
+  binc?: number;
+  movestogo?: number;
+  infinite: boolean;
+}
+
+const DEFAULT_MOVES_TO_GO = 30;
+const MOVE_OVERHEAD_MS = 50;
+
+let chess = new Chesspirito();
+let chess960 = false;
+
+// The search thread hands its lines to the reading thread, as its own stdout
+// is only flushed once a search gives the event loop back.
+function send(line: string) {
+  if (parentPort !== null) {
+    parentPort.postMessage(line);
+  } else {
+    process.stdout.write(line + "\n");
+  }
+}
+
+function parsePosition(args: string[]) {
+  const movesIndex = args.indexOf("moves");
+  const setup = movesIndex === -1 ? args : args.slice(0, movesIndex);
+  const moves = movesIndex === -1 ? [] : args.slice(movesIndex + 1);
+
+  let nextChess: Chesspirito;
+
+  if (setup[0] === "startpos") {
+    nextChess = new Chesspirito(undefined, { chess960 });
+  } else if (setup[0] === "fen") {
+    nextChess = new Chesspirito(setup.slice(1).join(" "), { chess960 });
+  } else {
+    throw new Error("Invalid position = " + args.join(" "));
+  }
+
+  for (const move of moves) {
+    nextChess.move(move);
+  }
+
+  chess = nextChess;
+}
+
+function setOption(args: string[]) {
+  const valueIndex = args.indexOf("value");
+  const name = args.slice(1, valueIndex === -1 ? undefined : valueIndex);
+  const value = valueIndex === -1 ? "" : args.slice(valueIndex + 1).join(" ");
+
+  if (name.join(" ").toLowerCase() === "uci_chess960") {
+    chess960 = value === "true";
+  }
+}
+
+function parseGo(args: string[]): GoParameters {
+  const parameters: GoParameters = { infinite: false };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case "depth":
+      case "movetime":
+      case "wtime":
+      case "btime":
+      case "winc":
+      case "binc":
+      case "movestogo": {
+        parameters[args[i] as Exclude<keyof GoParameters, "infinite">] = Number(
+          args[++i],
+        );
+        break;
+      }
+      case "infinite": {
+        parameters.infinite = true;
+        break;
+      }
+    }
+  }
+
+  return parameters;
+}
+
+function getSearchOptions(parameters: GoParameters): SearchOptions {
+  const { depth, movetime, infinite } = parameters;
+
+  if (infinite) {
+    return { depth: MAX_PLY };
+  }
+
+  if (movetime !== undefined) {
+    return { depth, timeMs: Math.max(movetime - MOVE_OVERHEAD_MS, 1) };
+  }
+
+  const time = chess.playingColor === "w" ? parameters.wtime : parameters.btime;
+  const increment =
+    (chess.playingColor === "w" ? parameters.winc : parameters.binc) ?? 0;
+
+  if (time === undefined) {
+    return { depth };
+  }
+
+  const movesToGo = parameters.movestogo ?? DEFAULT_MOVES_TO_GO;
+  const budget = time / movesToGo + (increment * 3) / 4;
+
+  return {
+    depth,
+    timeMs: Math.max(Math.min(budget, time - MOVE_OVERHEAD_MS), 1),
+  };
+}
+
+function sendInfo(
+  { depth, score, mate, nodes, pv }: SearchResult,
+  start: number,
+) {
+  const time = Math.max(Date.now() - start, 1);
+
+  send(
+    [
+      "info depth " + depth,
+      mate !== null ? "score mate " + mate : "score cp " + score,
+      "nodes " + nodes,
+      "time " + time,
+      "nps " + Math.round((nodes * 1000) / time),
+      "pv " + pv.join(" "),
+    ].join(" "),
+  );
+}
+
+// Set by the reading thread, which stays free to take "stop" while the
+// search thread is busy.
+function isStopped(): boolean {
+  return Atomics.load(workerData as Int32Array, 0) === 1;
+}
+
+function go(args: string[]) {
+  const parameters = parseGo(args);
+  const start = Date.now();
+
+  let move: string;
+
+  try {
+    ({ move } = chess.bestMove(
+      getSearchOptions(parameters),
+      (iteration) => sendInfo(iteration, start),
+      isStopped,
+    ));
+  } catch (err) {
+    send("info string " + (err as Error).message);
+    send("bestmove 0000");
+    return;
+  }
+
+  // An infinite search may only give its move once told to stop.
+  if (parameters.infinite) {
+    Atomics.wait(workerData as Int32Array, 0, 0);
+  }
+
+  send("bestmove " + move);
+}
+
+function handleCommand(line: string) {
+  const [command, ...args] = line.trim().split(/\s+/);
+
+  switch (command) {
+    case "uci": {
+      send("id name Chesspirito");
+      send("id author DevCorvus");
+      send("option name UCI_Chess960 type check default false");
+      send("uciok");
+      break;
+    }
+    case "isready": {
+      send("readyok");
+      break;
+    }
+    case "setoption": {
+      setOption(args);
+      break;
+    }
+    case "ucinewgame": {
+      chess = new Chesspirito(undefined, { chess960 });
+      break;
+    }
+    case "position": {
+      parsePosition(args);
+      break;
+    }
+    case "go": {
+      go(args);
+      break;
+    }
+    case "quit": {
+      process.exit(0);
+    }
+  }
+}
+
+// Commands are read here and searched on a second thread, so "stop",
+// "isready" and "quit" are answered even in the middle of a search. Outside
+// of one, "isready" goes through the search thread to be answered in order.
+function readCommands() {
+  const stopFlag = new Int32Array(new SharedArrayBuffer(4));
+  const searchThread = new Worker(new URL(import.meta.url), {
+    workerData: stopFlag,
+  });
+  const input = createInterface({ input: process.stdin });
+
+  let searches = 0;
+
+  searchThread.on("message", (line: string) => {
+    if (line.startsWith("bestmove")) {
+      searches--;
+    }
+
+    send(line);
+  });
+
+  input.on("line", (line) => {
+    const [command] = line.trim().split(/\s+/);
+
+    switch (command) {
+      case "isready": {
+        if (searches > 0) {
+          send("readyok");
+          return;
+        }
+
+        break;
+      }
+      case "go": {
+        Atomics.store(stopFlag, 0, 0);
+        searches++;
+        break;
+      }
+      case "stop": {
+        Atomics.store(stopFlag, 0, 1);
+        Atomics.notify(stopFlag, 0);
+        return;
+      }
+      case "quit": {
+        process.stdout.write("", () => process.exit(0));
+        return;
+      }
+    }
+
+    searchThread.postMessage(line);
+  });
+
+  // Lets the searches already sent finish before the process exits.
+  input.on("close", () => searchThread.postMessage("quit"));
+}
+
+if (isMainThread) {
+  readCommands();
+} else {
+  parentPort!.on("message", (line: string) => {
+    try {
+      handleCommand(line);
+    } catch (err) {
+      send("info string " + (err instanceof Error ? err.message : String(err)));
+    }
+  });
+}
@@ -0,0 +1,118 @@
+import type { Chesspirito, Color, GameOver } from "./engine";
+import type { Board0x88 } from "./board0x88";
+
+export interface Variant {
+  // Also written to and read from the PGN Variant tag.
+  name: string;
+  startFen: string;
+  // Bare kings can still win most variants, so their dead-position draws are
+  // opted out of.
+  insufficientMaterialDraws: boolean;
+  isMoveAllowed?(board: Board0x88, move: number): boolean;
+  // Checked after every move, ahead of checkmate, stalemate and the automatic
+  // draws, so a variant win on the last move is not scored as something else.
+  getGameOver?(chess: Chesspirito): GameOver | null;
+}
+
+function getWin(color: Color, termination: GameOver["termination"]): GameOver {
+  return { result: color === "w" ? "1-0" : "0-1", termination };
+}
+
+export function getCheckCount(chess: Chesspirito, color: Color): number {
+  return chess.history.filter(
+    ({ piece, san }) => piece.color === color && /[+#]$/.test(san),
+  ).length;
+}
+
+export const STANDARD: Variant = {
+  name: "Standard",
+  startFen: "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1",
+  insufficientMaterialDraws: true,
+};
+
+export const KING_OF_THE_HILL: Variant = {
+  name: "King of the Hill",
+  startFen: STANDARD.startFen,
+  insufficientMaterialDraws: false,
+  getGameOver(chess) {
+    for (const color of ["w", "b"] as const) {
+      const { x, y } = chess.getKingPosition(color);
+
+      if (x >= 3 && x <= 4 && y >= 3 && y <= 4) {
+        return getWin(color, "kingOfTheHill");
+      }
+    }
+
+    return null;
+  },
+};
+
+export const THREE_CHECK: Variant = {
+  name: "Three-check",
+  startFen: STANDARD.startFen,
+  insufficientMaterialDraws: false,
+  getGameOver(chess) {
+    for (const color of ["w", "b"] as const) {
+      if (getCheckCount(chess, color) >= 3) {
+        return getWin(color, "threeCheck");
+      }
+    }
+
+    return null;
+  },
+};
+
+// White moves first, so when its king reaches the eighth rank Black still
+// gets one move to draw by reaching it too.
+export const RACING_KINGS: Variant = {
+  name: "Racing Kings",
+  startFen: "8/8/8/8/8/8/krbnNBRK/qrbnNBRQ w - - 0 1",
+  insufficientMaterialDraws: false,
+  isMoveAllowed(board) {
+    return !board.inCheck(board.turn);
+  },
+  getGameOver(chess) {
+    const white = chess.getKingPosition("w");
+    const black = chess.getKingPosition("b");
+
+    if (white.y === 0 && black.y === 0) {
+      return { result: "1/2-1/2", termination: "raceFinished" };
+    }
+
+    if (black.y === 0) {
+      return getWin("b", "raceFinished");
+    }
+
+    if (white.y !== 0) {
+      return null;
+    }
+
+    const canBlackFinish =
+      chess.playingColor === "b" &&
+      chess.currLegalMoves.some(
+        ({ from, to }) =>
+          from.x === black.x && from.y === black.y && to.y === 0,
+      );
+
+    return canBlackFinish ? null : getWin("w", "raceFinished");
+  },
+};
+
+export const VARIANTS: Variant[] = [
+  STANDARD,
+  KING_OF_THE_HILL,
+  THREE_CHECK,
+  RACING_KINGS,
+];
+
+export function getVariant(name: string): Variant {
+  const variant = VARIANTS.find(
+    (variant) => variant.name.toLowerCase() === name.toLowerCase(),
+  );
+
+  if (variant === undefined) {
+    throw new Error("Invalid variant = " + name);
+  }
+
+  return variant;
+}
@@ -0,0 +1,122 @@
+import { Chesspirito } from "./engine";
+import { EngineRequest, EngineResponse } from "./protocol";
+import { SearchResult } from "./search";
+import { STANDARD, getVariant } from "./variants";
+
+interface RunningSearch {
+  id: number;
+  iterations: Generator<SearchResult, void>;
+  result: SearchResult | null;
+  stopped: boolean;
+}
+
+let chess = new Chesspirito();
+let running: RunningSearch | null = null;
+
+function respond(response: EngineResponse) {
+  self.postMessage(response);
+}
+
+function getErrorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function finishSearch(search: RunningSearch) {
+  running = null;
+
+  if (search.result !== null) {
+    respond({ type: "bestmove", id: search.id, result: search.result });
+  } else {
+    respond({
+      type: "error",
+      id: search.id,
+      message: "Invalid search = stopped before any result",
+    });
+  }
+}
+
+// Each depth is searched in its own task so "stop" messages get a chance to
+// be handled between iterations.
+function continueSearch(search: RunningSearch) {
+  if (search.stopped) {
+    finishSearch(search);
+    return;
+  }
+
+  const iteration = search.iterations.next();
+
+  if (iteration.done) {
+    finishSearch(search);
+    return;
+  }
+
+  search.result = iteration.value;
+  respond({ type: "info", id: search.id, result: iteration.value });
+
+  setTimeout(() => continueSearch(search), 0);
+}
+
+self.addEventListener("message", (event: MessageEvent<EngineRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case "position": {
+      try {
+        const nextChess = new Chesspirito(request.fen, {
+          variant: getVariant(request.variant ?? STANDARD.name),
+        });
+
+        for (const move of request.moves) {
+          nextChess.move(move);
+        }
+
+        chess = nextChess;
+        respond({ type: "ready", id: request.id });
+      } catch (err) {
+        respond({
+          type: "error",
+          id: request.id,
+          message: getErrorMessage(err),
+        });
+      }
+
+      break;
+    }
+    case "go": {
+      if (running !== null) {
+        respond({
+          type: "error",
+          id: request.id,
+          message: "Invalid search = already searching",
+        });
+        break;
+      }
+
+      try {
+        running = {
+          id: request.id,
+          iterations: chess.analyze(request.options),
+          result: null,
+          stopped: false,
+        };
+      } catch (err) {
+        respond({
+          type: "error",
+          id: request.id,
+          message: getErrorMessage(err),
+        });
+        break;
+      }
+
+      continueSearch(running);
+      break;
+    }
+    case "stop": {
+      if (running !== null) {
+        running.stopped = true;
+      }
+
+      break;
+    }
+  }
+});